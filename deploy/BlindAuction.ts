@@ -0,0 +1,18 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const deployedBlindAuction = await deploy("BlindAuction", {
+    from: deployer,
+    args: [3600],
+    log: true,
+  });
+
+  console.log(`BlindAuction contract: `, deployedBlindAuction.address);
+};
+export default func;
+func.id = "deploy_blindAuction"; // id required to prevent reexecution
+func.tags = ["BlindAuction"];
@@ -0,0 +1,18 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const deployedEncryptedERC20 = await deploy("EncryptedERC20", {
+    from: deployer,
+    args: ["ConfidentialToken", "CTK", 1000000],
+    log: true,
+  });
+
+  console.log(`EncryptedERC20 contract: `, deployedEncryptedERC20.address);
+};
+export default func;
+func.id = "deploy_encryptedERC20"; // id required to prevent reexecution
+func.tags = ["EncryptedERC20"];
@@ -0,0 +1,17 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const deployedTrustlessMatching = await deploy("TrustlessMatching", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`TrustlessMatching contract: `, deployedTrustlessMatching.address);
+};
+export default func;
+func.id = "deploy_trustlessMatching"; // id required to prevent reexecution
+func.tags = ["TrustlessMatching"];
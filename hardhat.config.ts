@@ -10,7 +10,11 @@ import { vars } from "hardhat/config";
 import "solidity-coverage";
 
 import "./tasks/accounts";
+import "./tasks/BlindAuction";
+import "./tasks/EncryptedERC20";
 import "./tasks/FHECounter";
+import "./tasks/TrustlessMatching";
+import "./tasks/factory";
 
 // Run 'npx hardhat vars setup' to see the list of variables that need to be set
 
@@ -5,482 +5,428 @@
  * A command-line tool for scaffolding FHEVM example projects.
  *
  * Usage:
- *   npx ts-node scripts/cli.ts list                    - List available examples
+ *   npx ts-node scripts/cli.ts list [--json]           - List available examples
+ *   npx ts-node scripts/cli.ts list --concept <c> --category <cat>
+ *                                                      - List examples teaching a concept
+ *   npx ts-node scripts/cli.ts search <term>           - Rank examples by concept and source matches
+ *   npx ts-node scripts/cli.ts info <name> [--json]    - Show everything known about one example
  *   npx ts-node scripts/cli.ts scaffold <name>         - Create a new example project
+ *   npx ts-node scripts/cli.ts scaffold --examples <a,b,c> <dir>
+ *                                                      - Bundle several examples into one project
+ *   npx ts-node scripts/cli.ts scaffold <name> --verify - Scaffold, then install, compile and test it
+ *   npx ts-node scripts/cli.ts add <name> [--into <dir>]
+ *                                                      - Add an example to an existing Hardhat project
+ *   npx ts-node scripts/cli.ts diff [dir]              - Show hub changes since a project was scaffolded
+ *   npx ts-node scripts/cli.ts upgrade [dir]           - Apply them with a line-level three-way merge
+ *   npx ts-node scripts/cli.ts init [--yes]            - Create a project interactively
  *   npx ts-node scripts/cli.ts generate-tests <name>   - Generate test file for an example
+ *   npx ts-node scripts/cli.ts concepts [--write]      - Compare used FHE calls and types with declared concepts
+ *   npx ts-node scripts/cli.ts coverage-matrix         - Report which FHE operations and types examples cover
  *   npx ts-node scripts/cli.ts docs                    - Generate documentation
+ *   npx ts-node scripts/cli.ts docs --check            - Fail with a diff if generated docs are out of date
+ *   npx ts-node scripts/cli.ts docs --locale <locale>  - Translated docs in docs/<locale>/
+ *   npx ts-node scripts/cli.ts docs --site [--out <dir>]
+ *                                                      - Build the static HTML documentation site
  */
 
 import * as fs from "fs";
 import * as path from "path";
+import * as readline from "readline";
 import { execSync } from "child_process";
+import * as prettier from "prettier";
+import {
+  ConstructorArg,
+  EXAMPLE_CATEGORIES,
+  ExampleCategory,
+  ExampleDefinition,
+  MANIFEST_FILE,
+  loadExampleRegistry,
+  writeManifest,
+} from "./lib/registry";
+import {
+  AclGrant,
+  FheUsage,
+  parseAclGrants,
+  parseConstructorParams,
+  parseContractDefinitions,
+  parseEncryptedTypes,
+  parseEvents,
+  parseFheUsage,
+  parseFunctions,
+  resolveContractClosure,
+  stripComments,
+} from "./lib/solidity";
+import { renderTemplateFile } from "./lib/template";
+import { buildCoverageMatrix, renderCoverageMarkdown } from "./lib/coverage";
+import { ContractDoc, MemberDoc, ParamDoc, loadContractDocs } from "./lib/natspec";
+import { SiteExample, renderSite } from "./lib/site";
+import { TestCase, matchTestCases, parseTestCases } from "./lib/snippets";
+import { pickFlowTest, renderAclDiagram, renderSequenceDiagram } from "./lib/diagrams";
+import { DEFAULT_LOCALE, Translate, Translator, createTranslator, listLocales, loadCatalogue } from "./lib/i18n";
+import { unifiedDiff } from "./lib/diff";
+import { FileStatus, HubLock, LOCKFILE, hashContent, planUpgrade, readLock, writeLock } from "./lib/lockfile";
+import { AbiFragment, extractFunctionBody, generateTestSuite } from "./lib/testgen";
 
-// Example definitions with metadata for documentation
-interface ExampleDefinition {
+/**
+ * Discover the example registry from examples/<name>/example.json manifests
+ */
+function loadRegistry(): ExampleDefinition[] {
+  try {
+    return loadExampleRegistry(path.resolve(__dirname, ".."));
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    console.log("\nPossible fixes:");
+    console.log(`  - Check each examples/<name>/${MANIFEST_FILE} against the ExampleDefinition shape`);
+    console.log("  - Make sure every contractFile exists under contracts/");
+    console.log("  - Give each example a unique name");
+    process.exit(1);
+  }
+}
+
+const EXAMPLES: ExampleDefinition[] = loadRegistry();
+
+interface ExampleSummary {
   name: string;
   description: string;
-  category: "basic" | "encryption" | "access-control" | "advanced" | "anti-pattern";
-  contractFile: string;
+  category: string;
   concepts: string[];
+  contractFile: string;
+  hasTest: boolean;
+  hasDocs: boolean;
 }
 
-const EXAMPLES: ExampleDefinition[] = [
-  {
-    name: "counter",
-    description: "Basic encrypted counter with increment/decrement operations",
-    category: "basic",
-    contractFile: "FHECounter.sol",
-    concepts: ["euint32", "FHE.add", "FHE.sub", "FHE.allow", "inputProof"],
-  },
-  {
-    name: "input-proof",
-    description: "Complete guide to FHE.fromExternal() and input proofs for all encrypted types",
-    category: "basic",
-    contractFile: "FHEInputProof.sol",
-    concepts: [
-      "FHE.fromExternal",
-      "input proofs",
-      "euint8",
-      "euint16",
-      "euint32",
-      "euint64",
-      "ebool",
-      "eaddress",
-      "batch processing",
-    ],
-  },
-  {
-    name: "comparisons",
-    description: "Encrypted comparison operations (eq, ne, lt, gt, le, ge)",
-    category: "basic",
-    contractFile: "FHEComparisons.sol",
-    concepts: ["FHE.eq", "FHE.ne", "FHE.lt", "FHE.gt", "FHE.le", "FHE.ge", "ebool"],
-  },
-  {
-    name: "arithmetic",
-    description: "Encrypted arithmetic operations (add, sub, mul)",
-    category: "basic",
-    contractFile: "FHEArithmetic.sol",
-    concepts: ["FHE.add", "FHE.sub", "FHE.mul"],
-  },
-  {
-    name: "bitwise",
-    description: "Encrypted bitwise operations (and, or, xor, shl, shr)",
-    category: "basic",
-    contractFile: "FHEBitwise.sol",
-    concepts: ["FHE.and", "FHE.or", "FHE.xor", "FHE.shl", "FHE.shr"],
-  },
-  {
-    name: "encryption",
-    description: "Encryption patterns: asEuintX, fromExternal, batch operations",
-    category: "encryption",
-    contractFile: "FHEEncryption.sol",
-    concepts: [
-      "FHE.asEuint8",
-      "FHE.asEuint16",
-      "FHE.asEuint32",
-      "FHE.asEuint64",
-      "FHE.fromExternal",
-      "batch encryption",
-      "type casting",
-    ],
-  },
-  {
-    name: "decryption",
-    description: "Decryption patterns: user decryption, multi-user access, conditional access",
-    category: "encryption",
-    contractFile: "FHEDecryption.sol",
-    concepts: ["FHE.allow", "client-side decryption", "access control", "conditional decryption", "batch decryption"],
-  },
-  {
-    name: "encrypted-erc20",
-    description: "ERC20 token with encrypted balances",
-    category: "encryption",
-    contractFile: "EncryptedERC20.sol",
-    concepts: ["euint64", "encrypted balances", "confidential transfers"],
-  },
-  {
-    name: "access-control",
-    description: "Access control patterns for encrypted data",
-    category: "access-control",
-    contractFile: "FHEAccessControl.sol",
-    concepts: ["FHE.allow", "FHE.allowThis", "re-encryption", "permissions"],
-  },
-  {
-    name: "blind-auction",
-    description: "Sealed-bid auction where bids remain encrypted until reveal",
-    category: "advanced",
-    contractFile: "BlindAuction.sol",
-    concepts: ["euint64", "FHE.select", "FHE.gt", "encrypted bids"],
-  },
-  {
-    name: "trustless-matching",
-    description: "Private matching (dating app style) - votes revealed only on mutual match",
-    category: "advanced",
-    contractFile: "TrustlessMatching.sol",
-    concepts: ["ebool", "FHE.and", "encrypted votes", "conditional reveal"],
-  },
-  {
-    name: "anti-missing-allow",
-    description: "Anti-pattern: Missing FHE.allow causing access issues",
-    category: "anti-pattern",
-    contractFile: "AntiMissingAllow.sol",
-    concepts: ["FHE.allow", "common mistakes", "access errors"],
-  },
-  {
-    name: "anti-overflow",
-    description: "Anti-pattern: Overflow/underflow without proper checks",
-    category: "anti-pattern",
-    contractFile: "AntiOverflow.sol",
-    concepts: ["overflow", "underflow", "range checks"],
-  },
-];
-
-function listExamples(): void {
-  console.log("\n📚 Available FHEVM Examples\n");
-  console.log("=".repeat(60));
-
-  const categories = ["basic", "encryption", "access-control", "advanced", "anti-pattern"];
+interface ExampleInfo extends ExampleSummary {
+  constructorArgs?: ExampleDefinition["constructorArgs"];
+  functions: { name: string; signature: string; stateMutability: string; returns: string[] }[];
+  events: { name: string; signature: string }[];
+  encryptedTypes: string[];
+  relatedExamples: string[];
+}
 
-  for (const category of categories) {
-    const categoryExamples = EXAMPLES.filter((e) => e.category === category);
-    if (categoryExamples.length > 0) {
-      console.log(`\n🏷️  ${category.toUpperCase()}\n`);
-      for (const example of categoryExamples) {
-        console.log(`  ${example.name}`);
-        console.log(`    └─ ${example.description}`);
-        console.log(`    └─ Concepts: ${example.concepts.join(", ")}`);
-      }
-    }
-  }
-  console.log("\n" + "=".repeat(60));
-  console.log("\nUsage: npx ts-node scripts/cli.ts scaffold <example-name>\n");
+function summarizeExample(example: ExampleDefinition): ExampleSummary {
+  const baseDir = path.resolve(__dirname, "..");
+  return {
+    name: example.name,
+    description: example.description,
+    category: example.category,
+    concepts: example.concepts,
+    contractFile: example.contractFile,
+    hasTest: fs.existsSync(path.join(baseDir, "test", path.basename(example.contractFile).replace(".sol", ".ts"))),
+    hasDocs: fs.existsSync(path.join(baseDir, "docs", `${example.name}.md`)),
+  };
 }
 
 /**
- * Generate test file content based on contract analysis
+ * Examples sharing the most concepts with this one. Concepts are weighted by rarity, so sharing FHE.select
+ * counts for more than sharing FHE.allowThis; the category breaks ties.
  */
-function generateTestContent(example: ExampleDefinition, contractPath: string): string {
-  const contractName = example.contractFile.replace(".sol", "");
-  const contractVarName = contractName.charAt(0).toLowerCase() + contractName.slice(1);
-
-  // Read contract to extract functions for test generation
-  let contractContent = "";
-  try {
-    contractContent = fs.readFileSync(contractPath, "utf-8");
-  } catch (error) {
-    // Contract read failure is fatal - test generation cannot proceed without contract content
-    console.error(
-      `❌ Failed to read contract file for test generation: ${error instanceof Error ? error.message : String(error)}`,
-    );
-
-    // Provide specific error messages based on error code
-    if (error instanceof Error && "code" in error) {
-      const nodeError = error as NodeJS.ErrnoException;
-      switch (nodeError.code) {
-        case "ENOENT":
-          console.error(`   Contract file not found at: ${contractPath}`);
-          console.error(`   Please ensure the contract file exists before generating tests.`);
-          break;
-        case "EACCES":
-          console.error(`   Permission denied reading: ${contractPath}`);
-          console.error(`   Please check file permissions and try again.`);
-          break;
-        case "EISDIR":
-          console.error(`   Path is a directory, not a file: ${contractPath}`);
-          break;
-        default:
-          console.error(`   Error code: ${nodeError.code}`);
-      }
-    }
-    process.exit(1);
+function relatedExamples(example: ExampleDefinition, limit = 5): string[] {
+  const frequency = new Map<string, number>();
+  for (const concept of EXAMPLES.flatMap((e) => e.concepts.map((c) => c.toLowerCase()))) {
+    frequency.set(concept, (frequency.get(concept) || 0) + 1);
   }
+  const concepts = new Set(example.concepts.map((c) => c.toLowerCase()));
+
+  return EXAMPLES.filter((other) => other !== example)
+    .map((other) => ({
+      name: other.name,
+      score:
+        other.concepts
+          .map((c) => c.toLowerCase())
+          .filter((c) => concepts.has(c))
+          .reduce((sum, c) => sum + 1 / frequency.get(c)!, 0) + (other.category === example.category ? 0.1 : 0),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, limit)
+    .map(({ name }) => name);
+}
 
-  // Extract function signatures from contract
-  const functionPattern = /function\s+(\w+)\s*\([^)]*\)\s+external/g;
-  const functions: string[] = [];
-  let match;
-  while ((match = functionPattern.exec(contractContent)) !== null) {
-    functions.push(match[1]);
-  }
+function describeExample(example: ExampleDefinition): ExampleInfo {
+  const source = fs.readFileSync(path.resolve(__dirname, "..", "contracts", example.contractFile), "utf-8");
+  return {
+    ...summarizeExample(example),
+    ...(example.constructorArgs ? { constructorArgs: example.constructorArgs } : {}),
+    functions: parseFunctions(source)
+      .filter((f) => f.visibility === "external" || f.visibility === "public")
+      .map((f) => ({
+        name: f.name,
+        signature: `${f.name}(${f.params.join(", ")})`,
+        stateMutability: f.stateMutability,
+        returns: f.returns,
+      })),
+    events: parseEvents(source).map((e) => ({ name: e.name, signature: `${e.name}(${e.params.join(", ")})` })),
+    encryptedTypes: parseEncryptedTypes(source),
+    relatedExamples: relatedExamples(example),
+  };
+}
+
+interface ListFilters {
+  concept?: string;
+  category?: string;
+}
 
-  // Generate test template based on category
-  return generateTestTemplate(example, contractName, contractVarName, functions);
+function readContractSource(example: ExampleDefinition): string {
+  return fs.readFileSync(path.resolve(__dirname, "..", "contracts", example.contractFile), "utf-8");
 }
 
 /**
- * Generate test template based on example category
+ * Names of the functions whose body (or name) mentions term, case-insensitively
  */
-function generateTestTemplate(
-  example: ExampleDefinition,
-  contractName: string,
-  contractVarName: string,
-  _functions: string[],
-): string {
-  const hasEncryption = example.concepts.some((c) => c.includes("euint") || c.includes("ebool"));
-
-  let testContent = `import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
-import { ethers, fhevm } from "hardhat";
-import { ${contractName}, ${contractName}__factory } from "../types";
-import { expect } from "chai";`;
+function functionsUsing(source: string, term: string): string[] {
+  const needle = term.toLowerCase();
+  const code = stripComments(source);
+  return [
+    ...new Set(
+      parseFunctions(code)
+        .filter(
+          (f) =>
+            f.name.toLowerCase().includes(needle) || extractFunctionBody(code, f.name).toLowerCase().includes(needle),
+        )
+        .map((f) => f.name),
+    ),
+  ];
+}
 
-  if (hasEncryption) {
-    testContent += `
-import { FhevmType } from "@fhevm/hardhat-plugin";`;
+/**
+ * Examples matching --concept (case-insensitive, exact) and --category; exits on an unknown category
+ */
+function filterExamples(filters: ListFilters): ExampleDefinition[] {
+  if (filters.category && !EXAMPLE_CATEGORIES.includes(filters.category as ExampleCategory)) {
+    console.error(`❌ Unknown category: ${filters.category}`);
+    console.log(`\nCategories: ${EXAMPLE_CATEGORIES.join(", ")}`);
+    process.exit(1);
   }
-
-  testContent += `
-
-type Signers = {
-  deployer: HardhatEthersSigner;
-  alice: HardhatEthersSigner;
-  bob: HardhatEthersSigner;
-};
-
-async function deployFixture() {
-  const factory = (await ethers.getContractFactory("${contractName}")) as ${contractName}__factory;
-  const ${contractVarName}Contract = (await factory.deploy()) as ${contractName};
-  const ${contractVarName}ContractAddress = await ${contractVarName}Contract.getAddress();
-
-  return { ${contractVarName}Contract, ${contractVarName}ContractAddress };
+  const concept = filters.concept?.toLowerCase();
+  return EXAMPLES.filter(
+    (e) =>
+      (!filters.category || e.category === filters.category) &&
+      (!concept || e.concepts.some((c) => c.toLowerCase() === concept)),
+  );
 }
 
-describe("${contractName}", function () {
-  let signers: Signers;
-  let ${contractVarName}Contract: ${contractName};
-  let ${contractVarName}ContractAddress: string;
+function listExamples(json = false, filters: ListFilters = {}): void {
+  const examples = filterExamples(filters);
+  if (json) {
+    console.log(
+      JSON.stringify(
+        examples.map((example) => ({
+          ...summarizeExample(example),
+          ...(filters.concept ? { functions: functionsUsing(readContractSource(example), filters.concept) } : {}),
+        })),
+        null,
+        2,
+      ),
+    );
+    return;
+  }
 
-  before(async function () {
-    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
-    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
-  });
+  console.log("\n📚 Available FHEVM Examples\n");
+  console.log("=".repeat(60));
 
-  beforeEach(async function () {
-    // Check whether the tests are running against an FHEVM mock environment
-    if (!fhevm.isMock) {
-      console.warn(\`This hardhat test suite cannot run on Sepolia Testnet\`);
-      this.skip();
+  for (const category of EXAMPLE_CATEGORIES) {
+    const categoryExamples = examples.filter((e) => e.category === category);
+    if (categoryExamples.length > 0) {
+      console.log(`\n🏷️  ${category.toUpperCase()}\n`);
+      for (const example of categoryExamples) {
+        console.log(`  ${example.name}`);
+        console.log(`    └─ ${example.description}`);
+        console.log(`    └─ Concepts: ${example.concepts.join(", ")}`);
+        if (filters.concept) {
+          const functions = functionsUsing(readContractSource(example), filters.concept);
+          if (functions.length > 0) {
+            console.log(`    └─ Used in: ${functions.join(", ")}`);
+          }
+        }
+      }
     }
-
-    ({ ${contractVarName}Contract, ${contractVarName}ContractAddress } = await deployFixture());
-  });
-
-  it("should deploy successfully", async function () {
-    expect(await ${contractVarName}Contract.getAddress()).to.be.properAddress;
-  });
-`;
-
-  // Generate specific test cases based on category
-  if (example.category === "basic") {
-    testContent += generateBasicTests(example, contractVarName);
-  } else if (example.category === "encryption") {
-    testContent += generateEncryptionTests(contractVarName);
-  } else if (example.category === "access-control") {
-    testContent += generateAccessControlTests(contractVarName);
-  } else if (example.category === "advanced") {
-    testContent += generateAdvancedTests(example, contractVarName);
-  } else if (example.category === "anti-pattern") {
-    testContent += generateAntiPatternTests(example);
   }
+  if (examples.length === 0) {
+    console.log("\n  No examples match the given filters.");
+  }
+  console.log("\n" + "=".repeat(60));
+  console.log("\nUsage: npx ts-node scripts/cli.ts scaffold <example-name>\n");
+}
 
-  testContent += `});
-`;
-
-  return testContent;
+interface SearchResult {
+  name: string;
+  category: string;
+  description: string;
+  score: number;
+  matchedConcepts: string[];
+  occurrences: number;
+  functions: string[];
 }
 
 /**
- * Generate test cases for basic examples
+ * Rank examples for a search term: exact concept matches first, then partial concept matches and
+ * name/description matches, then the number of occurrences of the term in the contract source
  */
-function generateBasicTests(example: ExampleDefinition, contractVarName: string): string {
-  let tests = "";
-
-  // Add encryption/decryption test if applicable
-  if (example.concepts.some((c) => c.includes("euint"))) {
-    tests += `
-  it("should handle encrypted values correctly", async function () {
-    // Create encrypted input
-    const clearValue = 42;
-    const encryptedInput = await fhevm
-      .createEncryptedInput(${contractVarName}ContractAddress, signers.alice.address)
-      .add32(clearValue)
-      .encrypt();
+function searchExamples(term: string, filters: ListFilters = {}): SearchResult[] {
+  const needle = term.toLowerCase();
+  const escaped = needle.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+  return filterExamples({ category: filters.category })
+    .map((example) => {
+      const source = readContractSource(example);
+      const matchedConcepts = example.concepts.filter((c) => c.toLowerCase().includes(needle));
+      const occurrences = (stripComments(source).toLowerCase().match(new RegExp(escaped, "g")) || []).length;
+      const exactConcept = example.concepts.some((c) => c.toLowerCase() === needle);
+      const textMatch = `${example.name} ${example.description}`.toLowerCase().includes(needle);
+      return {
+        name: example.name,
+        category: example.category,
+        description: example.description,
+        score: (exactConcept ? 100 : 0) + matchedConcepts.length * 10 + (textMatch ? 5 : 0) + occurrences,
+        matchedConcepts,
+        occurrences,
+        functions: occurrences > 0 ? functionsUsing(source, term) : [],
+      };
+    })
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+}
 
-    // TODO: Add contract interaction with encrypted value
-    // Example: await ${contractVarName}Contract.connect(signers.alice).someFunction(encryptedInput.handles[0], encryptedInput.inputProof);
-  });
-`;
+function showSearchResults(term: string, json = false, filters: ListFilters = {}): void {
+  const results = searchExamples(term, filters);
+  if (json) {
+    console.log(JSON.stringify(results, null, 2));
+    return;
   }
 
-  // Add operation-specific tests
-  if (example.concepts.includes("FHE.add")) {
-    tests += `
-  it("should perform encrypted addition", async function () {
-    const a = 10;
-    const b = 20;
-
-    const encryptedA = await fhevm
-      .createEncryptedInput(${contractVarName}ContractAddress, signers.alice.address)
-      .add32(a)
-      .encrypt();
-
-    const encryptedB = await fhevm
-      .createEncryptedInput(${contractVarName}ContractAddress, signers.alice.address)
-      .add32(b)
-      .encrypt();
-
-    // TODO: Call contract's add function and verify result
-  });
-`;
+  console.log(`\n🔍 Results for "${term}"\n`);
+  if (results.length === 0) {
+    console.log("  No examples match. Try a concept from `npx ts-node scripts/cli.ts list`.\n");
+    return;
   }
-
-  if (example.concepts.includes("FHE.eq") || example.concepts.includes("FHE.ne")) {
-    tests += `
-  it("should perform encrypted comparison", async function () {
-    const value1 = 100;
-    const value2 = 200;
-
-    const encrypted1 = await fhevm
-      .createEncryptedInput(${contractVarName}ContractAddress, signers.alice.address)
-      .add32(value1)
-      .encrypt();
-
-    const encrypted2 = await fhevm
-      .createEncryptedInput(${contractVarName}ContractAddress, signers.alice.address)
-      .add32(value2)
-      .encrypt();
-
-    // TODO: Call contract's comparison function and verify result
+  results.forEach((result, index) => {
+    console.log(`  ${index + 1}. ${result.name} (${result.category})`);
+    console.log(`     └─ ${result.description}`);
+    if (result.matchedConcepts.length > 0) {
+      console.log(`     └─ Concepts: ${result.matchedConcepts.join(", ")}`);
+    }
+    if (result.occurrences > 0) {
+      const where = result.functions.length > 0 ? ` (${result.functions.join(", ")})` : "";
+      console.log(`     └─ ${result.occurrences} occurrence(s) in source${where}`);
+    }
   });
-`;
-  }
-
-  return tests;
+  console.log("\nUsage: npx ts-node scripts/cli.ts info <example-name>\n");
 }
 
-/**
- * Generate test cases for encryption examples
- */
-function generateEncryptionTests(contractVarName: string): string {
-  return `
-  it("should handle encrypted transfers", async function () {
-    // TODO: Test encrypted balance transfers
-    const amount = 1000;
-    const encryptedAmount = await fhevm
-      .createEncryptedInput(${contractVarName}ContractAddress, signers.alice.address)
-      .add64(amount)
-      .encrypt();
-
-    // Add transfer logic here
-  });
+function showExampleInfo(exampleName: string, json = false): void {
+  const example = EXAMPLES.find((e) => e.name === exampleName);
+  if (!example) {
+    console.error(`❌ Unknown example: ${exampleName}`);
+    console.log("\nAvailable examples:");
+    EXAMPLES.forEach((e) => console.log(`  - ${e.name}`));
+    process.exit(1);
+  }
 
-  it("should maintain balance privacy", async function () {
-    // TODO: Verify that balances remain encrypted and private
-  });
+  let info: ExampleInfo;
+  try {
+    info = describeExample(example);
+  } catch (error) {
+    console.error(
+      `❌ Failed to read ${example.contractFile}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    console.log("\nPossible fixes:");
+    console.log(`  - Check that contracts/${example.contractFile} exists and is readable`);
+    process.exit(1);
+  }
 
-  it("should allow authorized decryption", async function () {
-    // TODO: Test that authorized users can decrypt their own balances
-  });
-`;
-}
+  if (json) {
+    console.log(JSON.stringify(info, null, 2));
+    return;
+  }
 
-/**
- * Generate test cases for access control examples
- */
-function generateAccessControlTests(contractVarName: string): string {
-  return `
-  it("should grant access with FHE.allow", async function () {
-    // TODO: Test FHE.allow functionality
-    const value = 42;
-    const encryptedValue = await fhevm
-      .createEncryptedInput(${contractVarName}ContractAddress, signers.alice.address)
-      .add32(value)
-      .encrypt();
+  console.log(`\n📦 ${info.name}\n`);
+  console.log(`  ${info.description}\n`);
+  console.log(`  Category:        ${info.category}`);
+  console.log(`  Contract:        contracts/${info.contractFile}`);
+  console.log(`  Concepts:        ${info.concepts.join(", ")}`);
+  console.log(`  Encrypted types: ${info.encryptedTypes.join(", ") || "(none)"}`);
+  if (info.constructorArgs) {
+    console.log(`  Constructor:     ${info.constructorArgs.map((arg) => JSON.stringify(arg)).join(", ")}`);
+  }
+  console.log(`  Test:            ${info.hasTest ? "✅" : "❌"}   Docs: ${info.hasDocs ? "✅" : "❌"}`);
 
-    // Store value and verify access control
-  });
+  console.log(`\n🔧 External functions (${info.functions.length})\n`);
+  for (const f of info.functions) {
+    const mutability = f.stateMutability === "nonpayable" ? "" : ` ${f.stateMutability}`;
+    const returns = f.returns.length > 0 ? ` returns (${f.returns.join(", ")})` : "";
+    console.log(`  - ${f.signature}${mutability}${returns}`);
+  }
 
-  it("should deny access to unauthorized users", async function () {
-    // TODO: Test that unauthorized users cannot access encrypted data
-  });
+  console.log(`\n📣 Events (${info.events.length})\n`);
+  info.events.forEach((e) => console.log(`  - ${e.signature}`));
 
-  it("should allow re-encryption for authorized users", async function () {
-    // TODO: Test re-encryption permissions
-  });
-`;
+  console.log("\n🔗 Related examples\n");
+  info.relatedExamples.forEach((name) => console.log(`  - ${name}`));
+  console.log(`\nUsage: npx ts-node scripts/cli.ts scaffold ${info.name}\n`);
 }
 
 /**
- * Generate test cases for advanced examples
+ * Load the ABI of a compiled contract from the Hardhat artifacts directory
  */
-function generateAdvancedTests(example: ExampleDefinition, contractVarName: string): string {
-  if (example.name.includes("auction")) {
-    return `
-  it("should accept encrypted bids", async function () {
-    const bidAmount = 1000;
-    const encryptedBid = await fhevm
-      .createEncryptedInput(${contractVarName}ContractAddress, signers.alice.address)
-      .add64(bidAmount)
-      .encrypt();
-
-    // TODO: Submit bid and verify
-  });
+function loadContractAbi(contractFile: string): AbiFragment[] {
+  const contractName = contractFile.replace(".sol", "");
+  const artifactPath = path.resolve(__dirname, "..", "artifacts", "contracts", contractFile, `${contractName}.json`);
 
-  it("should determine winner correctly", async function () {
-    // TODO: Test winner determination logic
-  });
-
-  it("should keep bids private until reveal", async function () {
-    // TODO: Verify bid privacy
-  });
-`;
+  if (!fs.existsSync(artifactPath)) {
+    throw new Error(`Artifact not found at ${artifactPath}. Run "npm run compile" first.`);
   }
 
-  return `
-  it("should handle complex encrypted operations", async function () {
-    // TODO: Add test cases for advanced functionality
-  });
-`;
+  const artifact = JSON.parse(fs.readFileSync(artifactPath, "utf-8"));
+  if (!Array.isArray(artifact.abi)) {
+    throw new Error(`Artifact has no ABI: ${artifactPath}`);
+  }
+  return artifact.abi as AbiFragment[];
 }
 
 /**
- * Generate test cases for anti-pattern examples
+ * Generate test file content from the compiled contract ABI
  */
-function generateAntiPatternTests(example: ExampleDefinition): string {
-  if (example.name.includes("missing-allow")) {
-    return `
-  it("should demonstrate missing FHE.allow issue", async function () {
-    // TODO: Test that demonstrates the anti-pattern
-    // This should show what happens when FHE.allow is missing
-  });
-
-  it("should show correct pattern with FHE.allow", async function () {
-    // TODO: Show the correct implementation for comparison
-  });
-`;
-  }
+function generateTestContent(example: ExampleDefinition, contractPath: string): string {
+  const contractName = example.contractFile.replace(".sol", "");
 
-  if (example.name.includes("overflow")) {
-    return `
-  it("should demonstrate overflow vulnerability", async function () {
-    // TODO: Test that demonstrates overflow issue
-  });
+  // Read contract to locate the storage written by each function
+  let contractContent = "";
+  try {
+    contractContent = fs.readFileSync(contractPath, "utf-8");
+  } catch (error) {
+    // Contract read failure is fatal - test generation cannot proceed without contract content
+    console.error(
+      `❌ Failed to read contract file for test generation: ${error instanceof Error ? error.message : String(error)}`,
+    );
 
-  it("should show proper overflow protection", async function () {
-    // TODO: Show the correct pattern with overflow checks
-  });
-`;
+    // Provide specific error messages based on error code
+    if (error instanceof Error && "code" in error) {
+      const nodeError = error as NodeJS.ErrnoException;
+      switch (nodeError.code) {
+        case "ENOENT":
+          console.error(`   Contract file not found at: ${contractPath}`);
+          console.error(`   Please ensure the contract file exists before generating tests.`);
+          break;
+        case "EACCES":
+          console.error(`   Permission denied reading: ${contractPath}`);
+          console.error(`   Please check file permissions and try again.`);
+          break;
+        case "EISDIR":
+          console.error(`   Path is a directory, not a file: ${contractPath}`);
+          break;
+        default:
+          console.error(`   Error code: ${nodeError.code}`);
+      }
+    }
+    process.exit(1);
   }
 
-  return `
-  it("should demonstrate the anti-pattern", async function () {
-    // TODO: Add test demonstrating the anti-pattern
-  });
-
-  it("should show the correct pattern", async function () {
-    // TODO: Show the correct implementation
-  });
-`;
+  const abi = loadContractAbi(example.contractFile);
+  const { content, skipped } = generateTestSuite(contractName, abi, contractContent);
+  for (const { name, reason } of skipped) {
+    console.warn(`  ⚠️  No test generated for ${contractName}.${name}: ${reason}`);
+  }
+  return content;
 }
 
 /**
@@ -543,16 +489,38 @@ function generateTests(exampleName: string, outputDir?: string): void {
     }
   }
 
-  // Generate test content
-  const testContent = generateTestContent(example, contractPath);
+  // Generate test content from the compiled ABI
+  let testContent: string;
+  try {
+    testContent = generateTestContent(example, contractPath);
+  } catch (error) {
+    console.error(`❌ Failed to generate test content: ${error instanceof Error ? error.message : String(error)}`);
+    console.log("\nPossible fixes:");
+    console.log("  - Compile the contracts first: npm run compile");
+    console.log(`  - Check that artifacts/contracts/${example.contractFile} exists`);
+    process.exit(1);
+  }
 
   try {
     fs.writeFileSync(testPath, testContent);
     console.log(`✅ Test file generated: ${testPath}\n`);
+
+    // Run prettier so the generated test matches the project style
+    try {
+      execSync(`npx prettier --write "${testPath}"`, { stdio: "ignore" });
+    } catch {
+      console.log("⚠️  Prettier formatting skipped (not available)\n");
+    }
+
+    // Each function is called once, as alice, with sample values on a freshly deployed contract
+    console.log("ℹ️  Tests pass unedited only for functions without preconditions. Functions that need prior state");
+    console.log("   (e.g. a value stored first, an index in range), a role, or a call from another signer still");
+    console.log("   need their setup written by hand.\n");
     console.log("Next steps:");
     console.log("  1. Review the generated test file");
-    console.log("  2. Complete the TODO sections with specific test logic");
-    console.log("  3. Run tests with: npm run test\n");
+    console.log("  2. Add the setup that functions with preconditions need");
+    console.log("  3. Replace the remaining type assertions with expected clear values");
+    console.log("  4. Run tests with: npm run test\n");
   } catch (error) {
     console.error(`❌ Failed to write test file: ${error instanceof Error ? error.message : String(error)}`);
 
@@ -584,49 +552,353 @@ function generateTests(exampleName: string, outputDir?: string): void {
   }
 }
 
-function scaffoldExample(exampleName: string, outputDir?: string): void {
-  const example = EXAMPLES.find((e) => e.name === exampleName);
+interface ConceptReport {
+  name: string;
+  contractFile: string;
+  usage: FheUsage;
+  // Extracted API concepts the manifest does not declare
+  missing: string[];
+  // Declared API concepts (FHE.*, encrypted types) the contract no longer uses; free-text concepts are never stale
+  stale: string[];
+}
 
-  if (!example) {
+function isApiConcept(concept: string): boolean {
+  return /^(FHE\.\w+|ebool|euint\d+|eint\d+|eaddress|externalE\w+)$/.test(concept);
+}
+
+function conceptReport(example: ExampleDefinition): ConceptReport {
+  const usage = parseFheUsage(readContractSource(example));
+  const extracted = [...usage.encryptedTypes, ...usage.externalInputTypes, ...usage.operations, ...usage.aclCalls];
+  return {
+    name: example.name,
+    contractFile: example.contractFile,
+    usage,
+    missing: extracted.filter((concept) => !example.concepts.includes(concept)),
+    stale: example.concepts.filter((concept) => isApiConcept(concept) && !extracted.includes(concept)),
+  };
+}
+
+/**
+ * Report the FHE calls, encrypted types and ACL calls each contract uses, compared with its declared concepts.
+ * With write, declared concepts are updated in the manifests: stale API concepts are dropped and missing ones appended.
+ */
+function extractConcepts(exampleName: string | undefined, json: boolean, write: boolean): void {
+  const examples = exampleName ? EXAMPLES.filter((e) => e.name === exampleName) : EXAMPLES;
+  if (examples.length === 0) {
     console.error(`❌ Unknown example: ${exampleName}`);
     console.log("\nAvailable examples:");
     EXAMPLES.forEach((e) => console.log(`  - ${e.name}`));
     process.exit(1);
   }
 
-  const targetDir = outputDir || `fhevm-example-${exampleName}`;
-  const absoluteTargetDir = path.resolve(targetDir);
-
-  console.log(`\n🚀 Scaffolding "${example.name}" example...`);
-  console.log(`   Target: ${absoluteTargetDir}\n`);
-
-  // Create directory structure
-  if (fs.existsSync(absoluteTargetDir)) {
-    console.error(`❌ Directory already exists: ${absoluteTargetDir}`);
-    process.exit(1);
-  }
-
+  let reports: ConceptReport[];
   try {
-    fs.mkdirSync(absoluteTargetDir, { recursive: true });
-    fs.mkdirSync(path.join(absoluteTargetDir, "contracts"));
-    fs.mkdirSync(path.join(absoluteTargetDir, "test"));
-    fs.mkdirSync(path.join(absoluteTargetDir, "deploy"));
-    fs.mkdirSync(path.join(absoluteTargetDir, "tasks"));
+    reports = examples.map(conceptReport);
   } catch (error) {
-    console.error(`❌ Failed to create directory structure: ${error instanceof Error ? error.message : String(error)}`);
+    console.error(`❌ Failed to parse contracts: ${error instanceof Error ? error.message : String(error)}`);
     console.log("\nPossible fixes:");
-    console.log("  - Check that you have write permissions in the target directory");
-    console.log("  - Ensure the parent directory exists and is accessible");
-    console.log(`  - Try creating the directory manually: mkdir -p "${absoluteTargetDir}"`);
+    console.log("  - Check that every contractFile in examples/*/example.json exists and is readable");
     process.exit(1);
   }
 
-  // Copy base config files
+  if (json) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    console.log("\n🔎 Concepts used by each contract\n");
+    for (const report of reports) {
+      console.log(`  ${report.name} (${report.contractFile})`);
+      console.log(`    └─ FHE operations:  ${report.usage.operations.join(", ") || "(none)"}`);
+      console.log(`    └─ ACL calls:       ${report.usage.aclCalls.join(", ") || "(none)"}`);
+      console.log(`    └─ Encrypted types: ${report.usage.encryptedTypes.join(", ") || "(none)"}`);
+      console.log(`    └─ External inputs: ${report.usage.externalInputTypes.join(", ") || "(none)"}`);
+      if (report.missing.length > 0) {
+        console.log(`    ➕ Not declared: ${report.missing.join(", ")}`);
+      }
+      if (report.stale.length > 0) {
+        console.log(`    ➖ Declared but unused: ${report.stale.join(", ")}`);
+      }
+      console.log("");
+    }
+  }
+
+  const drifted = reports.filter((report) => report.missing.length > 0 || report.stale.length > 0);
+  if (!write) {
+    if (!json) {
+      console.log(
+        drifted.length === 0
+          ? "✅ Declared concepts match the contracts"
+          : `⚠️  ${drifted.length} example(s) out of date. Re-run with --write to update examples/*/${MANIFEST_FILE}\n`,
+      );
+    }
+    return;
+  }
+
   const baseDir = path.resolve(__dirname, "..");
+  const written: string[] = [];
+  for (const report of drifted) {
+    const example = EXAMPLES.find((e) => e.name === report.name)!;
+    const concepts = [...example.concepts.filter((c) => !report.stale.includes(c)), ...report.missing];
+    try {
+      written.push(writeManifest(baseDir, { ...example, concepts }));
+      console.log(`  ✅ Updated concepts of ${report.name}`);
+    } catch (error) {
+      console.error(`❌ Failed to update ${report.name}: ${error instanceof Error ? error.message : String(error)}`);
+      console.log("\nPossible fixes:");
+      console.log(`  - Check that you have write permissions for examples/*/${MANIFEST_FILE}`);
+      process.exit(1);
+    }
+  }
+
+  if (written.length > 0) {
+    try {
+      execSync(`npx prettier --write ${written.map((file) => `"${file}"`).join(" ")}`, { stdio: "ignore" });
+    } catch {
+      console.log("⚠️  Prettier formatting skipped (not available)");
+    }
+    console.log(
+      `\n✅ Updated ${written.length} manifest(s). Regenerate the docs with: npx ts-node scripts/cli.ts docs\n`,
+    );
+  } else {
+    console.log("✅ Declared concepts already match the contracts\n");
+  }
+}
+
+/**
+ * Matrix of FHE operations × encrypted types × examples, as Markdown (default) or JSON
+ */
+function coverageMatrix(json: boolean, outFile?: string): void {
+  let output: string;
+  try {
+    const matrix = buildCoverageMatrix(EXAMPLES.map((e) => ({ name: e.name, source: readContractSource(e) })));
+    output = json
+      ? JSON.stringify(matrix, null, 2) + "\n"
+      : renderCoverageMarkdown(
+          matrix,
+          EXAMPLES.map((e) => e.name),
+        );
+  } catch (error) {
+    console.error(`❌ Failed to build coverage matrix: ${error instanceof Error ? error.message : String(error)}`);
+    console.log("\nPossible fixes:");
+    console.log("  - Check that every contractFile in examples/*/example.json exists and is readable");
+    process.exit(1);
+  }
+
+  if (!outFile) {
+    process.stdout.write(output);
+    return;
+  }
+
+  try {
+    fs.mkdirSync(path.dirname(path.resolve(outFile)), { recursive: true });
+    fs.writeFileSync(outFile, output);
+  } catch (error) {
+    console.error(`❌ Failed to write ${outFile}: ${error instanceof Error ? error.message : String(error)}`);
+    console.log("\nPossible fixes:");
+    console.log("  - Check that you have write permissions for the output path");
+    process.exit(1);
+  }
+  try {
+    execSync(`npx prettier --write "${outFile}"`, { stdio: "ignore" });
+  } catch {
+    console.log("⚠️  Prettier formatting skipped (not available)");
+  }
+  console.log(`✅ Coverage matrix written to ${outFile}`);
+}
+
+// Networks defined in hardhat.config.ts; "hardhat" is the default network and is always kept
+const SUPPORTED_NETWORKS = ["hardhat", "anvil", "sepolia"];
+
+const PACKAGE_MANAGERS = ["npm", "yarn", "pnpm", "bun"] as const;
+
+type PackageManager = (typeof PACKAGE_MANAGERS)[number];
+
+interface ScaffoldOptions {
+  packageManager?: PackageManager;
+  networks?: string[];
+}
+
+/**
+ * Command used to run a package.json script with the chosen package manager
+ */
+function runScriptCommand(packageManager: PackageManager, script: string): string {
+  if (script === "install") {
+    return `${packageManager} install`;
+  }
+  return packageManager === "npm" || packageManager === "bun"
+    ? `${packageManager} run ${script}`
+    : `${packageManager} ${script}`;
+}
+
+/**
+ * Source expression of a constructor argument for a rendered deploy script
+ */
+function deployArgExpression(arg: ConstructorArg): string {
+  return typeof arg === "object" ? `(await hre.deployments.get("${arg.deployment}")).address` : JSON.stringify(arg);
+}
+
+/**
+ * hardhat-deploy id for a contract, e.g. FHECounter -> deploy_fheCounter
+ */
+function deployId(contractName: string): string {
+  return `deploy_${contractName.replace(/^[A-Z]+(?=[A-Z][a-z])|^[A-Z]/, (prefix) => prefix.toLowerCase())}`;
+}
+
+interface ProjectFile {
+  // Path relative to the project root, with forward slashes
+  path: string;
+  content: string;
+}
+
+/**
+ * Example contracts and every local contract they import, transitively (paths relative to contracts/)
+ */
+function resolveExampleContracts(examples: ExampleDefinition[]): string[] {
+  const contractsDir = path.resolve(__dirname, "..", "contracts");
+  const contractFiles: string[] = [];
+  try {
+    for (const example of examples) {
+      for (const file of resolveContractClosure(contractsDir, example.contractFile)) {
+        if (!contractFiles.includes(file)) {
+          contractFiles.push(file);
+        }
+      }
+    }
+  } catch (error) {
+    console.error(`❌ Failed to resolve contract imports: ${error instanceof Error ? error.message : String(error)}`);
+    console.log("\nPossible fixes:");
+    console.log("  - Check the import paths in the example contract");
+    console.log("  - Make sure every imported contract exists under contracts/");
+    process.exit(1);
+  }
+  return contractFiles;
+}
+
+/**
+ * Files an example brings into a project: its contracts, the test and task file of each contract
+ * (a test is generated for an example contract without one), and a deploy script per deployable contract.
+ * Paths of tests that fail to generate are appended to `failed`.
+ */
+function collectExampleFiles(
+  examples: ExampleDefinition[],
+  contractFiles: string[],
+  failed: string[] = [],
+): ProjectFile[] {
+  const baseDir = path.resolve(__dirname, "..");
+  const contractsDir = path.join(baseDir, "contracts");
+  const files: ProjectFile[] = [];
+
+  for (const file of contractFiles) {
+    files.push({ path: `contracts/${file}`, content: fs.readFileSync(path.join(contractsDir, file), "utf-8") });
+  }
+
+  for (const file of contractFiles) {
+    const testFileName = path.basename(file).replace(".sol", ".ts");
+    const testSrc = path.join(baseDir, "test", testFileName);
+    const example = examples.find((e) => e.contractFile === file);
+    if (fs.existsSync(testSrc)) {
+      files.push({ path: `test/${testFileName}`, content: fs.readFileSync(testSrc, "utf-8") });
+    } else if (example) {
+      console.log(`  🧪 Generating test file for ${example.name}...`);
+      try {
+        files.push({
+          path: `test/${testFileName}`,
+          content: generateTestContent(example, path.join(contractsDir, file)),
+        });
+        console.log(`  ✅ Test file generated`);
+      } catch (error) {
+        failed.push(`test/${testFileName}`);
+        console.warn(`  ⚠️  Failed to generate test file: ${error instanceof Error ? error.message : String(error)}`);
+        console.warn("     You can generate it later using: npx ts-node scripts/cli.ts generate-tests " + example.name);
+      }
+    }
+  }
+
+  for (const file of contractFiles) {
+    const taskFileName = path.basename(file).replace(".sol", ".ts");
+    const taskSrc = path.join(baseDir, "tasks", taskFileName);
+    if (fs.existsSync(taskSrc)) {
+      files.push({ path: `tasks/${taskFileName}`, content: fs.readFileSync(taskSrc, "utf-8") });
+    }
+  }
+
+  // The task factory registers task:<Contract>:<function> for every compiled contract, and example tasks share its helpers
+  files.push({
+    path: "tasks/factory.ts",
+    content: fs.readFileSync(path.join(baseDir, "tasks", "factory.ts"), "utf-8"),
+  });
+
+  // Every example contract is deployed, plus each concrete dependency that is not only inherited from
+  const definitions = contractFiles.map((file) => ({
+    file,
+    definition: parseContractDefinitions(fs.readFileSync(path.join(contractsDir, file), "utf-8")).find(
+      (d) => d.name === path.basename(file, ".sol"),
+    ),
+  }));
+  const inherited = new Set(
+    definitions.flatMap(({ file }) =>
+      parseContractDefinitions(fs.readFileSync(path.join(contractsDir, file), "utf-8")).flatMap((d) => d.bases),
+    ),
+  );
+  const deployFiles = definitions
+    .filter(
+      ({ file, definition }) =>
+        examples.some((e) => e.contractFile === file) ||
+        (definition?.kind === "contract" && !inherited.has(definition.name)),
+    )
+    .map(({ file }) => file);
+
+  for (const file of deployFiles) {
+    const contractName = path.basename(file, ".sol");
+    // Constructor args come from the manifest of the example that owns the contract, if any
+    const constructorArgs = EXAMPLES.find((e) => e.contractFile === file)?.constructorArgs || [];
+    const constructorParams = parseConstructorParams(fs.readFileSync(path.join(contractsDir, file), "utf-8"));
+    if (constructorParams.length !== constructorArgs.length) {
+      console.warn(
+        `⚠️  No constructorArgs for ${contractName}(${constructorParams.join(", ")}); edit deploy/${contractName}.ts before deploying`,
+      );
+    }
+    const dependencies = resolveContractClosure(contractsDir, file)
+      .filter((dep) => dep !== file && deployFiles.includes(dep))
+      .map((dep) => path.basename(dep, ".sol"));
+    for (const arg of constructorArgs) {
+      if (typeof arg === "object" && !dependencies.includes(arg.deployment)) {
+        dependencies.push(arg.deployment);
+      }
+    }
+    files.push({
+      path: `deploy/${contractName}.ts`,
+      content: renderTemplateFile(baseDir, "deploy.ts", {
+        CONTRACT_NAME: contractName,
+        DEPLOY_ARGS: constructorArgs.map(deployArgExpression).join(", "),
+        DEPLOY_ID: deployId(contractName),
+        DEPLOY_TAGS: JSON.stringify(contractName),
+        DEPLOY_DEPENDENCIES: dependencies.map((d) => JSON.stringify(d)).join(", "),
+      }),
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Every file of a scaffolded project, rendered in memory.
+ * Deterministic for a given hub checkout, which is what lets `diff` and `upgrade` compare against it.
+ * Paths of files that fail to generate are appended to `failed`.
+ */
+function renderProjectFiles(
+  examples: ExampleDefinition[],
+  projectName: string,
+  packageManager: PackageManager,
+  networks: string[],
+  failed: string[] = [],
+): ProjectFile[] {
+  const baseDir = path.resolve(__dirname, "..");
+  const removedNetworks = SUPPORTED_NETWORKS.filter((n) => n !== "hardhat" && !networks.includes(n));
+  const files: ProjectFile[] = [];
+
+  // Base config files
   const filesToCopy = [
-    "hardhat.config.ts",
     "tsconfig.json",
-    "package.json",
     ".eslintrc.yml",
     ".eslintignore",
     ".prettierrc.yml",
@@ -636,157 +908,704 @@ function scaffoldExample(exampleName: string, outputDir?: string): void {
     ".solcover.js",
     ".gitignore",
   ];
-
   for (const file of filesToCopy) {
     const src = path.join(baseDir, file);
-    const dest = path.join(absoluteTargetDir, file);
     if (fs.existsSync(src)) {
-      try {
-        fs.copyFileSync(src, dest);
-      } catch (error) {
-        console.error(`❌ Failed to copy ${file}: ${error instanceof Error ? error.message : String(error)}`);
-        console.log("\nPossible fixes:");
-        console.log("  - Check that you have read permissions for the source file");
-        console.log("  - Check that you have write permissions for the destination");
-        console.log(`  - Source: ${src}`);
-        console.log(`  - Destination: ${dest}`);
-        process.exit(1);
-      }
+      const content = fs.readFileSync(src, "utf-8");
+      // The lockfile is machine-written, like package-lock.json
+      files.push({ path: file, content: file === ".prettierignore" ? `${content}${LOCKFILE}\n` : content });
     } else {
       console.warn(`⚠️  Configuration file not found (skipping): ${file}`);
     }
   }
 
-  // Copy contract file
-  const contractSrc = path.join(baseDir, "contracts", example.contractFile);
-  const contractDest = path.join(absoluteTargetDir, "contracts", example.contractFile);
-  if (fs.existsSync(contractSrc)) {
+  // package.json, without scripts that target a network the project does not configure
+  const pkg = JSON.parse(fs.readFileSync(path.join(baseDir, "package.json"), "utf-8"));
+  pkg.name = projectName;
+  pkg.description =
+    examples.length > 1 ? `FHEVM examples: ${examples.map((e) => e.name).join(", ")}` : examples[0].description;
+  for (const [script, commandLine] of Object.entries(pkg.scripts || {})) {
+    if (removedNetworks.some((n) => String(commandLine).includes(`--network ${n}`))) {
+      delete pkg.scripts[script];
+    }
+  }
+  files.push({ path: "package.json", content: JSON.stringify(pkg, null, 2) });
+
+  // Contracts, tests, tasks and deploy scripts, plus tasks/accounts.ts which hardhat.config.ts imports
+  files.push(...collectExampleFiles(examples, resolveExampleContracts(examples), failed));
+  files.push({
+    path: "tasks/accounts.ts",
+    content: fs.readFileSync(path.join(baseDir, "tasks", "accounts.ts"), "utf-8"),
+  });
+
+  // hardhat.config.ts with the copied tasks and the selected networks only
+  const taskNames = files
+    .filter((file) => file.path.startsWith("tasks/"))
+    .map((file) => path.basename(file.path, ".ts"))
+    .sort();
+  files.push({
+    path: "hardhat.config.ts",
+    content: renderTemplateFile(baseDir, "hardhat.config.ts", {
+      TASK_IMPORTS: taskNames.map((taskName) => `import "./tasks/${taskName}";`).join("\n"),
+      NETWORK_ANVIL: networks.includes("anvil"),
+      NETWORK_SEPOLIA: networks.includes("sepolia"),
+    }),
+  });
+
+  files.push({ path: "README.md", content: renderReadme(examples, projectName, packageManager, networks) });
+
+  return files;
+}
+
+/**
+ * Version of this hub, plus the git commit when running from a checkout
+ */
+function hubVersionInfo(): Pick<HubLock, "hubVersion" | "hubCommit"> {
+  const baseDir = path.resolve(__dirname, "..");
+  const hubVersion: string = JSON.parse(fs.readFileSync(path.join(baseDir, "package.json"), "utf-8")).version;
+  try {
+    const hubCommit = execSync("git rev-parse --short HEAD", { cwd: baseDir, stdio: ["ignore", "pipe", "ignore"] })
+      .toString()
+      .trim();
+    return { hubVersion, hubCommit };
+  } catch {
+    // Not a git checkout (e.g. installed from a tarball)
+    return { hubVersion };
+  }
+}
+
+/**
+ * Lockfile for a freshly scaffolded project: hub version plus the hash and content of every generated file
+ */
+function createLock(
+  examples: ExampleDefinition[],
+  projectName: string,
+  packageManager: PackageManager,
+  networks: string[],
+  files: ProjectFile[],
+): HubLock {
+  return {
+    ...hubVersionInfo(),
+    projectName,
+    examples: examples.map((e) => e.name),
+    packageManager,
+    networks,
+    files: Object.fromEntries(
+      [...files].sort((a, b) => a.path.localeCompare(b.path)).map((file) => [file.path, hashContent(file.content)]),
+    ),
+    base: Object.fromEntries(
+      [...files].sort((a, b) => a.path.localeCompare(b.path)).map((file) => [file.path, file.content]),
+    ),
+  };
+}
+
+function scaffoldExample(exampleNames: string[], outputDir?: string, options: ScaffoldOptions = {}): string {
+  const examples: ExampleDefinition[] = [];
+  for (const exampleName of exampleNames) {
+    const example = EXAMPLES.find((e) => e.name === exampleName);
+
+    if (!example) {
+      console.error(`❌ Unknown example: ${exampleName}`);
+      console.log("\nAvailable examples:");
+      EXAMPLES.forEach((e) => console.log(`  - ${e.name}`));
+      process.exit(1);
+    }
+    if (!examples.includes(example)) {
+      examples.push(example);
+    }
+  }
+
+  const packageManager = options.packageManager || "npm";
+  const networks = options.networks || SUPPORTED_NETWORKS;
+  const unknownNetworks = networks.filter((n) => !SUPPORTED_NETWORKS.includes(n));
+  if (unknownNetworks.length > 0) {
+    console.error(`❌ Unknown network(s): ${unknownNetworks.join(", ")}`);
+    console.log(`\nSupported networks: ${SUPPORTED_NETWORKS.join(", ")}`);
+    process.exit(1);
+  }
+
+  const isComposite = examples.length > 1;
+  const targetDir = outputDir || `fhevm-example-${examples[0].name}`;
+  const absoluteTargetDir = path.resolve(targetDir);
+  const projectName = isComposite ? path.basename(absoluteTargetDir) : `fhevm-example-${examples[0].name}`;
+
+  if (isComposite) {
+    console.log(`\n🚀 Scaffolding ${examples.length} examples: ${examples.map((e) => e.name).join(", ")}...`);
+  } else {
+    console.log(`\n🚀 Scaffolding "${examples[0].name}" example...`);
+  }
+  console.log(`   Target: ${absoluteTargetDir}\n`);
+
+  // Create directory structure
+  if (fs.existsSync(absoluteTargetDir)) {
+    console.error(`❌ Directory already exists: ${absoluteTargetDir}`);
+    process.exit(1);
+  }
+
+  try {
+    fs.mkdirSync(absoluteTargetDir, { recursive: true });
+    fs.mkdirSync(path.join(absoluteTargetDir, "contracts"));
+    fs.mkdirSync(path.join(absoluteTargetDir, "test"));
+    fs.mkdirSync(path.join(absoluteTargetDir, "deploy"));
+    fs.mkdirSync(path.join(absoluteTargetDir, "tasks"));
+  } catch (error) {
+    console.error(`❌ Failed to create directory structure: ${error instanceof Error ? error.message : String(error)}`);
+    console.log("\nPossible fixes:");
+    console.log("  - Check that you have write permissions in the target directory");
+    console.log("  - Ensure the parent directory exists and is accessible");
+    console.log(`  - Try creating the directory manually: mkdir -p "${absoluteTargetDir}"`);
+    process.exit(1);
+  }
+
+  let projectFiles: ProjectFile[];
+  try {
+    projectFiles = renderProjectFiles(examples, projectName, packageManager, networks);
+  } catch (error) {
+    console.error(`❌ Failed to prepare project files: ${error instanceof Error ? error.message : String(error)}`);
+    console.log("\nPossible fixes:");
+    console.log("  - Check that templates/*.tpl exist and only use known placeholders");
+    console.log("  - Check that you have read permissions for contracts/, test/, tasks/ and package.json");
+    process.exit(1);
+  }
+
+  for (const file of projectFiles) {
+    const dest = path.join(absoluteTargetDir, file.path);
     try {
-      fs.copyFileSync(contractSrc, contractDest);
+      fs.mkdirSync(path.dirname(dest), { recursive: true });
+      fs.writeFileSync(dest, file.content);
     } catch (error) {
-      console.error(`❌ Failed to copy contract file: ${error instanceof Error ? error.message : String(error)}`);
+      console.error(`❌ Failed to write ${file.path}: ${error instanceof Error ? error.message : String(error)}`);
       console.log("\nPossible fixes:");
-      console.log("  - Check that you have read permissions for the contract file");
       console.log("  - Check that you have write permissions for the destination");
-      console.log(`  - Source: ${contractSrc}`);
-      console.log(`  - Destination: ${contractDest}`);
+      console.log(`  - Destination: ${dest}`);
       process.exit(1);
     }
-  } else {
-    console.warn(`⚠️  Contract file not found: ${contractSrc}`);
-    console.warn("    The scaffolded project may be incomplete without the main contract file.");
+  }
+  const contractCount = projectFiles.filter((file) => file.path.startsWith("contracts/")).length;
+  if (contractCount > 1) {
+    console.log(`  ✅ Copied ${contractCount} contracts`);
   }
 
-  // Copy test file if exists, otherwise generate one
-  const testFileName = example.contractFile.replace(".sol", ".ts");
-  const testSrc = path.join(baseDir, "test", testFileName);
-  const testDest = path.join(absoluteTargetDir, "test", testFileName);
-  if (fs.existsSync(testSrc)) {
+  // Record what was generated so `diff` and `upgrade` can bring in later hub changes
+  writeLock(absoluteTargetDir, createLock(examples, projectName, packageManager, networks, projectFiles));
+
+  console.log("✅ Scaffolding complete!\n");
+  console.log("Next steps:");
+  console.log(`  cd ${targetDir}`);
+  console.log(`  ${runScriptCommand(packageManager, "install")}`);
+  console.log(`  ${runScriptCommand(packageManager, "compile")}`);
+  console.log(`  ${runScriptCommand(packageManager, "test")}\n`);
+
+  return absoluteTargetDir;
+}
+
+type ConflictMode = "abort" | "force" | "skip";
+
+/**
+ * Add the FHEVM plugin import and the given task imports to a hardhat.config.ts if they are missing.
+ * Returns the patched config and a description of each change.
+ */
+function patchHardhatConfig(configContent: string, taskNames: string[]): { content: string; changes: string[] } {
+  const lines = configContent.split("\n");
+  const changes: string[] = [];
+  const importLines = () =>
+    lines.map((line, index) => (/^import\s.*;\s*$/.test(line) ? index : -1)).filter((index) => index >= 0);
+
+  const missingTasks = taskNames.filter(
+    (taskName) => !new RegExp(`^import\\s+["']\\./tasks/${taskName}(\\.ts)?["'];`, "m").test(configContent),
+  );
+  if (missingTasks.length > 0) {
+    const existing = importLines();
+    const insertAt = existing.length > 0 ? existing[existing.length - 1] + 1 : 0;
+    lines.splice(insertAt, 0, ...missingTasks.map((taskName) => `import "./tasks/${taskName}";`));
+    changes.push(...missingTasks.map((taskName) => `import "./tasks/${taskName}"`));
+  }
+
+  if (!/^import\s+["']@fhevm\/hardhat-plugin["'];/m.test(configContent)) {
+    const existing = importLines();
+    lines.splice(existing.length > 0 ? existing[0] : 0, 0, `import "@fhevm/hardhat-plugin";`);
+    changes.push(`import "@fhevm/hardhat-plugin"`);
+  }
+
+  return { content: lines.join("\n"), changes };
+}
+
+/**
+ * Copy an example's contracts, tests, tasks and deploy scripts into an existing Hardhat project
+ */
+function addExample(exampleName: string, projectDir: string, conflictMode: ConflictMode): void {
+  const example = EXAMPLES.find((e) => e.name === exampleName);
+  if (!example) {
+    console.error(`❌ Unknown example: ${exampleName}`);
+    console.log("\nAvailable examples:");
+    EXAMPLES.forEach((e) => console.log(`  - ${e.name}`));
+    process.exit(1);
+  }
+
+  const absoluteProjectDir = path.resolve(projectDir);
+  const configPath = path.join(absoluteProjectDir, "hardhat.config.ts");
+  if (!fs.existsSync(configPath)) {
+    console.error(`❌ Not a Hardhat project: ${configPath} not found`);
+    console.log("\nPossible fixes:");
+    console.log("  - Point --into at the root of your Hardhat project");
+    console.log(`  - Create a new project instead: npx ts-node scripts/cli.ts scaffold ${example.name}`);
+    process.exit(1);
+  }
+
+  console.log(`\n➕ Adding "${example.name}" example...`);
+  console.log(`   Project: ${absoluteProjectDir}\n`);
+
+  let exampleFiles: ProjectFile[];
+  try {
+    exampleFiles = collectExampleFiles([example], resolveExampleContracts([example]));
+  } catch (error) {
+    console.error(`❌ Failed to prepare example files: ${error instanceof Error ? error.message : String(error)}`);
+    console.log("\nPossible fixes:");
+    console.log("  - Check that templates/deploy.ts.tpl exists and only uses known placeholders");
+    console.log("  - Check that you have read permissions for contracts/, test/ and tasks/");
+    process.exit(1);
+  }
+
+  // Identical files are left alone; files that differ are conflicts
+  const conflicts = exampleFiles.filter((file) => {
+    const dest = path.join(absoluteProjectDir, file.path);
+    return fs.existsSync(dest) && fs.readFileSync(dest, "utf-8") !== file.content;
+  });
+  if (conflicts.length > 0 && conflictMode === "abort") {
+    console.error(`❌ ${conflicts.length} file(s) already exist with different content:`);
+    conflicts.forEach((file) => console.error(`   - ${file.path}`));
+    console.log("\nPossible fixes:");
+    console.log("  - Re-run with --force to overwrite them");
+    console.log("  - Re-run with --skip to keep your versions and add only the missing files");
+    process.exit(1);
+  }
+
+  for (const file of exampleFiles) {
+    const dest = path.join(absoluteProjectDir, file.path);
+    const isConflict = conflicts.includes(file);
+    if (fs.existsSync(dest) && !isConflict) {
+      console.log(`  ✔️  Up to date: ${file.path}`);
+      continue;
+    }
+    if (isConflict && conflictMode === "skip") {
+      console.log(`  ⏭️  Skipped (exists): ${file.path}`);
+      continue;
+    }
     try {
-      fs.copyFileSync(testSrc, testDest);
-      console.log(`  ✅ Copied existing test file`);
+      fs.mkdirSync(path.dirname(dest), { recursive: true });
+      fs.writeFileSync(dest, file.content);
+      console.log(`  ${isConflict ? "♻️  Overwrote" : "✅ Added"}: ${file.path}`);
     } catch (error) {
-      console.error(`❌ Failed to copy test file: ${error instanceof Error ? error.message : String(error)}`);
+      console.error(`❌ Failed to write ${file.path}: ${error instanceof Error ? error.message : String(error)}`);
       console.log("\nPossible fixes:");
-      console.log("  - Check file permissions");
-      console.log(`  - Source: ${testSrc}`);
-      console.log(`  - Destination: ${testDest}`);
+      console.log("  - Check that you have write permissions in the project");
+      console.log(`  - Destination: ${dest}`);
       process.exit(1);
     }
+  }
+
+  // Register the plugin and the example's tasks in hardhat.config.ts
+  const taskNames = exampleFiles
+    .filter((file) => file.path.startsWith("tasks/") && fs.existsSync(path.join(absoluteProjectDir, file.path)))
+    .map((file) => path.basename(file.path, ".ts"));
+  try {
+    const configContent = fs.readFileSync(configPath, "utf-8");
+    const { content, changes } = patchHardhatConfig(configContent, taskNames);
+    if (changes.length > 0) {
+      fs.writeFileSync(configPath, content);
+      changes.forEach((change) => console.log(`  🔧 hardhat.config.ts: added ${change}`));
+    }
+    if (!/["']hardhat-deploy["']/.test(content)) {
+      console.warn(`  ⚠️  hardhat.config.ts does not import "hardhat-deploy"; the deploy/ scripts need it`);
+    }
+  } catch (error) {
+    console.error(`❌ Failed to update hardhat.config.ts: ${error instanceof Error ? error.message : String(error)}`);
+    console.log("\nPossible fixes:");
+    console.log("  - Check file permissions");
+    console.log(`  - Add the imports manually: import "@fhevm/hardhat-plugin"; and import "./tasks/<Contract>";`);
+    console.log(`  - Path: ${configPath}`);
+    process.exit(1);
+  }
+
+  const contractName = path.basename(example.contractFile, ".sol");
+  console.log(`\n✅ Added "${example.name}"!\n`);
+  console.log("Next steps:");
+  console.log("  npx hardhat compile");
+  console.log(`  npx hardhat test test/${contractName}.ts`);
+  console.log(`  npx hardhat deploy --tags ${contractName}\n`);
+}
+
+/**
+ * Read a scaffolded project's lockfile and compare it with a fresh render from this hub
+ */
+function planProjectUpgrade(projectDir: string): {
+  lock: HubLock;
+  upstream: Record<string, string>;
+  statuses: FileStatus[];
+} {
+  const absoluteProjectDir = path.resolve(projectDir);
+  let lock: HubLock;
+  try {
+    lock = readLock(absoluteProjectDir);
+  } catch (error) {
+    console.error(`❌ Failed to read lockfile: ${error instanceof Error ? error.message : String(error)}`);
+    console.log("\nPossible fixes:");
+    console.log("  - Run the command from (or point it at) a project created with scaffold or init");
+    console.log(`  - Projects scaffolded before lockfiles were introduced have no ${LOCKFILE}; re-scaffold them`);
+    process.exit(1);
+  }
+
+  const examples = lock.examples.map((name) => EXAMPLES.find((e) => e.name === name));
+  const missing = lock.examples.filter((_name, index) => !examples[index]);
+  if (missing.length > 0) {
+    console.error(`❌ Example(s) no longer in the hub: ${missing.join(", ")}`);
+    console.log("\nPossible fixes:");
+    console.log("  - Check whether the example was renamed: npx ts-node scripts/cli.ts list");
+    console.log(`  - Update "examples" in ${LOCKFILE} to the new name`);
+    process.exit(1);
+  }
+
+  let upstreamFiles: ProjectFile[];
+  const failed: string[] = [];
+  try {
+    upstreamFiles = renderProjectFiles(
+      examples as ExampleDefinition[],
+      lock.projectName,
+      lock.packageManager as PackageManager,
+      lock.networks,
+      failed,
+    );
+  } catch (error) {
+    console.error(`❌ Failed to render upstream files: ${error instanceof Error ? error.message : String(error)}`);
+    console.log("\nPossible fixes:");
+    console.log("  - Check that templates/*.tpl exist and only use known placeholders");
+    process.exit(1);
+  }
+  const upstream = Object.fromEntries(upstreamFiles.map((file) => [file.path, file.content]));
+
+  const readLocal = (file: string) => {
+    const localPath = path.join(absoluteProjectDir, file);
+    return fs.existsSync(localPath) ? fs.readFileSync(localPath, "utf-8") : undefined;
+  };
+  // A file the hub failed to generate this time is kept as it is, never planned for removal
+  return { lock, upstream, statuses: planUpgrade(lock, upstream, readLocal, failed) };
+}
+
+function hubVersionLabel(lock: Pick<HubLock, "hubVersion" | "hubCommit">): string {
+  return lock.hubCommit ? `${lock.hubVersion} (${lock.hubCommit})` : lock.hubVersion;
+}
+
+/**
+ * "lines 3-5, 12" for the conflicting base lines of a file, or "" when its base content is unknown
+ */
+function conflictLines(status: FileStatus): string {
+  const ranges = (status.conflicts || []).map(([start, end]) => (start === end ? `${start}` : `${start}-${end}`));
+  if (ranges.length === 0) {
+    return "";
+  }
+  return `${ranges.length === 1 && !ranges[0].includes("-") ? "line" : "lines"} ${ranges.join(", ")}`;
+}
+
+/**
+ * Show which generated files changed in the hub since the project was scaffolded
+ */
+function diffProject(projectDir: string): void {
+  const absoluteProjectDir = path.resolve(projectDir);
+  const { lock, upstream, statuses } = planProjectUpgrade(absoluteProjectDir);
+  const current = hubVersionInfo();
+
+  console.log(`\n🔍 ${absoluteProjectDir}`);
+  console.log(`   Scaffolded from hub ${hubVersionLabel(lock)}, comparing with ${hubVersionLabel(current)}\n`);
+
+  const changed = statuses.filter((status) => status.upstreamChanged && status.action !== "in-sync");
+  for (const status of changed) {
+    const lines = conflictLines(status);
+    const labels: Record<string, string> = {
+      update: "changed upstream",
+      add: "added upstream",
+      remove: "removed upstream",
+      merge: "changed upstream, modified locally (merges cleanly)",
+      conflict: `changed upstream, modified locally (conflict${lines ? ` at ${lines}` : ""})`,
+    };
+    console.log(`📝 ${status.path}: ${labels[status.action]}`);
+    const localPath = path.join(absoluteProjectDir, status.path);
+    const local = fs.existsSync(localPath) ? fs.readFileSync(localPath, "utf-8") : "";
+    // A clean merge shows what upgrade will change in the local copy
+    const target = status.action === "merge" ? status.merged! : (upstream[status.path] ?? "");
+    console.log(
+      unifiedDiff(
+        local,
+        target,
+        fs.existsSync(localPath) ? `a/${status.path}` : "/dev/null",
+        status.path in upstream ? `b/${status.path}` : "/dev/null",
+      ),
+    );
+  }
+
+  const modified = statuses.filter((status) => status.locallyModified && !status.upstreamChanged);
+  if (modified.length > 0) {
+    console.log("✏️  Modified locally (kept by upgrade):");
+    modified.forEach((status) => console.log(`   - ${status.path}`));
+    console.log("");
+  }
+
+  const conflicts = changed.filter((status) => status.action === "conflict");
+  if (changed.length === 0) {
+    console.log("✅ Up to date with the hub");
   } else {
-    // Generate test file if it doesn't exist
-    console.log(`  🧪 Generating test file...`);
+    console.log(`${changed.length} file(s) changed upstream, ${conflicts.length} conflict(s)`);
+    console.log("Run `npx ts-node scripts/cli.ts upgrade` to apply them");
+  }
+}
+
+/**
+ * Apply upstream changes, merging them line by line into files the user has edited; files where both sides
+ * changed the same lines are reported as conflicts
+ */
+function upgradeProject(projectDir: string, force: boolean): void {
+  const absoluteProjectDir = path.resolve(projectDir);
+  const { lock, upstream, statuses } = planProjectUpgrade(absoluteProjectDir);
+
+  console.log(`\n⬆️  Upgrading ${absoluteProjectDir}\n`);
+
+  const files = { ...lock.files };
+  const base = { ...lock.base };
+  const conflicts: FileStatus[] = [];
+  for (const status of statuses) {
+    const dest = path.join(absoluteProjectDir, status.path);
+    const action =
+      status.action === "conflict" && force ? (status.path in upstream ? "update" : "remove") : status.action;
     try {
-      const testContent = generateTestContent(example, contractSrc);
-      fs.writeFileSync(testDest, testContent);
-      console.log(`  ✅ Test file generated`);
+      if (action === "update" || action === "add") {
+        fs.mkdirSync(path.dirname(dest), { recursive: true });
+        fs.writeFileSync(dest, upstream[status.path]);
+        console.log(`  ${action === "add" ? "✅ Added" : "♻️  Updated"}: ${status.path}`);
+      } else if (action === "merge") {
+        fs.writeFileSync(dest, status.merged!);
+        console.log(`  🔀 Merged: ${status.path}`);
+      } else if (action === "remove") {
+        fs.rmSync(dest, { force: true });
+        console.log(`  🗑️  Removed: ${status.path}`);
+      } else if (action === "conflict") {
+        conflicts.push(status);
+        continue;
+      } else if (action === "none") {
+        // Lockfiles from older hubs have no base content: record it while the local copy still matches
+        if (!(status.path in base) && !status.locallyModified && fs.existsSync(dest)) {
+          base[status.path] = fs.readFileSync(dest, "utf-8");
+        }
+        continue;
+      }
     } catch (error) {
-      console.warn(`  ⚠️  Failed to generate test file: ${error instanceof Error ? error.message : String(error)}`);
-      console.warn("     You can generate it later using: npx ts-node scripts/cli.ts generate-tests " + exampleName);
+      console.error(`❌ Failed to update ${status.path}: ${error instanceof Error ? error.message : String(error)}`);
+      console.log("\nPossible fixes:");
+      console.log("  - Check that you have write permissions in the project");
+      console.log(`  - Path: ${dest}`);
+      process.exit(1);
     }
+
+    // Conflicts keep their old hash and base so they are reported again until resolved
+    if (status.path in upstream) {
+      files[status.path] = hashContent(upstream[status.path]);
+      base[status.path] = upstream[status.path];
+    } else {
+      delete files[status.path];
+      delete base[status.path];
+    }
+  }
+
+  const current = hubVersionInfo();
+  writeLock(absoluteProjectDir, {
+    ...lock,
+    hubVersion: current.hubVersion,
+    hubCommit: current.hubCommit,
+    files: Object.fromEntries(Object.entries(files).sort(([a], [b]) => a.localeCompare(b))),
+    base: Object.fromEntries(Object.entries(base).sort(([a], [b]) => a.localeCompare(b))),
+  });
+
+  if (conflicts.length > 0) {
+    console.error(
+      `\n❌ ${conflicts.length} file(s) changed on both sides could not be merged and were left untouched:`,
+    );
+    conflicts.forEach((status) => {
+      const lines = conflictLines(status);
+      console.error(`   - ${status.path}${lines ? ` (${lines})` : ""}`);
+    });
+    console.log("\nPossible fixes:");
+    console.log("  - Run `npx ts-node scripts/cli.ts diff` to see the upstream changes and merge them by hand");
+    console.log("  - Re-run with --force to replace your versions with the hub's");
+    process.exit(1);
+  }
+  console.log(`\n✅ Upgraded to hub ${hubVersionLabel(current)}`);
+}
+
+type InstallMode = "link" | "offline";
+
+interface VerifyStepResult {
+  step: string;
+  status: "passed" | "failed" | "skipped";
+  durationMs: number;
+  detail?: string;
+}
+
+/**
+ * Run a shell command in the scaffolded project and report it as one verification step
+ */
+function runVerifyStep(step: string, commandLine: string, cwd: string): VerifyStepResult {
+  const start = Date.now();
+  console.log(`  ▶ ${step}: ${commandLine}`);
+  try {
+    execSync(commandLine, { cwd, stdio: "pipe", env: { ...process.env, CI: "true" } });
+    return { step, status: "passed", durationMs: Date.now() - start };
+  } catch (error) {
+    const output = error as { stdout?: Buffer; stderr?: Buffer; message?: string };
+    const text = `${output.stdout?.toString() ?? ""}${output.stderr?.toString() ?? ""}` || String(output.message);
+    // Keep the tail of the output: that is where hardhat and mocha report the failure
+    return {
+      step,
+      status: "failed",
+      durationMs: Date.now() - start,
+      detail: text.trim().split("\n").slice(-20).join("\n"),
+    };
   }
+}
 
-  // Copy tasks/accounts.ts (required by hardhat.config.ts)
-  const accountsSrc = path.join(baseDir, "tasks", "accounts.ts");
-  const accountsDest = path.join(absoluteTargetDir, "tasks", "accounts.ts");
-  if (fs.existsSync(accountsSrc)) {
+/**
+ * Install, compile and test a freshly scaffolded project, printing a pass/fail summary per step.
+ * Returns true when every step passed.
+ */
+function verifyScaffold(projectDir: string, installMode: InstallMode): boolean {
+  console.log(`🔎 Verifying ${projectDir}...\n`);
+  const results: VerifyStepResult[] = [];
+
+  // 1. Install: symlink the hub's node_modules, or install from the local npm cache without network access
+  if (installMode === "link") {
+    const start = Date.now();
+    const hubModules = path.resolve(__dirname, "..", "node_modules");
+    console.log(`  ▶ install: link ${hubModules}`);
     try {
-      fs.copyFileSync(accountsSrc, accountsDest);
+      if (!fs.existsSync(hubModules)) {
+        throw new Error(`Hub dependencies not installed: ${hubModules} (run npm install in the hub first)`);
+      }
+      fs.symlinkSync(hubModules, path.join(projectDir, "node_modules"), "junction");
+      results.push({ step: "install", status: "passed", durationMs: Date.now() - start });
     } catch (error) {
-      console.warn(`⚠️  Failed to copy tasks/accounts.ts: ${error instanceof Error ? error.message : String(error)}`);
+      results.push({
+        step: "install",
+        status: "failed",
+        durationMs: Date.now() - start,
+        detail: error instanceof Error ? error.message : String(error),
+      });
     }
+  } else {
+    results.push(runVerifyStep("install", "npm install --offline --no-audit --no-fund", projectDir));
   }
 
-  // Copy deploy file if exists
-  const deploySrc = path.join(baseDir, "deploy", "deploy.ts");
-  const deployDest = path.join(absoluteTargetDir, "deploy", "deploy.ts");
-  if (fs.existsSync(deploySrc)) {
-    try {
-      // Read and modify deploy script for this contract
-      let deployContent = fs.readFileSync(deploySrc, "utf-8");
-      const contractName = example.contractFile.replace(".sol", "");
-      deployContent = deployContent.replace(/FHECounter/g, contractName);
-      deployContent = deployContent.replace(/fheCounter/g, contractName.toLowerCase());
-      fs.writeFileSync(deployDest, deployContent);
-    } catch (error) {
-      console.error(`❌ Failed to process deploy file: ${error instanceof Error ? error.message : String(error)}`);
-      console.log("\nPossible fixes:");
-      console.log("  - Check that you have read permissions for the deploy template");
-      console.log("  - Check that you have write permissions for the destination");
-      console.log(`  - Source: ${deploySrc}`);
-      console.log(`  - Destination: ${deployDest}`);
-      process.exit(1);
+  // 2. Compile and 3. test, each only once the previous step passed
+  for (const [step, script] of [
+    ["compile", "npm run compile"],
+    ["test", "npm run test"],
+  ]) {
+    if (results.some((r) => r.status !== "passed")) {
+      results.push({ step, status: "skipped", durationMs: 0 });
+      continue;
     }
+    results.push(runVerifyStep(step, script, projectDir));
+  }
+
+  console.log("\nVerification summary:");
+  for (const result of results) {
+    const icon = result.status === "passed" ? "✅" : result.status === "failed" ? "❌" : "⏭️ ";
+    const duration = result.status === "skipped" ? "" : ` (${(result.durationMs / 1000).toFixed(1)}s)`;
+    console.log(`  ${icon} ${result.step.padEnd(8)} ${result.status}${duration}`);
   }
 
-  // Update package.json
-  const pkgPath = path.join(absoluteTargetDir, "package.json");
-  try {
-    const pkgContent = fs.readFileSync(pkgPath, "utf-8");
-    const pkg = JSON.parse(pkgContent);
-    pkg.name = `fhevm-example-${exampleName}`;
-    pkg.description = example.description;
-    fs.writeFileSync(pkgPath, JSON.stringify(pkg, null, 2));
-  } catch (error) {
-    console.error(`❌ Failed to update package.json: ${error instanceof Error ? error.message : String(error)}`);
-    console.log("\nPossible fixes:");
-    console.log("  - Ensure package.json was copied correctly");
-    console.log("  - Check that the package.json contains valid JSON");
-    console.log("  - Verify file permissions");
-    console.log(`  - Path: ${pkgPath}`);
-    process.exit(1);
+  const failed = results.find((r) => r.status === "failed");
+  if (failed?.detail) {
+    console.log(`\n${failed.step} output (last lines):\n${failed.detail.replace(/^/gm, "    ")}`);
   }
+  console.log("");
 
-  // Update hardhat.config.ts to remove FHECounter task import
-  const configPath = path.join(absoluteTargetDir, "hardhat.config.ts");
-  try {
-    let configContent = fs.readFileSync(configPath, "utf-8");
-    configContent = configContent.replace(/import "\.\/tasks\/FHECounter";\n?/g, "");
-    fs.writeFileSync(configPath, configContent);
-  } catch (error) {
-    console.error(`❌ Failed to update hardhat.config.ts: ${error instanceof Error ? error.message : String(error)}`);
-    console.log("\nPossible fixes:");
-    console.log("  - Ensure hardhat.config.ts was copied correctly");
-    console.log("  - Check file permissions");
-    console.log(`  - Path: ${configPath}`);
-    process.exit(1);
+  return !failed;
+}
+
+function renderReadme(
+  examples: ExampleDefinition[],
+  projectName: string,
+  packageManager: PackageManager,
+  networks: string[],
+): string {
+  let readme = examples.length === 1 ? singleExampleReadme(examples[0]) : compositeReadme(examples, projectName);
+
+  // Tailor the commands to the chosen package manager and networks
+  if (!networks.includes("sepolia")) {
+    readme = readme.replace(/\n\n# [^\n]*Sepolia[^\n]*\n[^\n]*\n/g, "\n");
   }
+  return readme.replace(/\bnpm (install|run ([\w:]+))/g, (_match, _command: string, script?: string) =>
+    runScriptCommand(packageManager, script ?? "install"),
+  );
+}
 
-  // Generate README
-  generateReadme(example, absoluteTargetDir);
+function compositeReadme(examples: ExampleDefinition[], projectName: string): string {
+  const sections = examples
+    .map(
+      (example) => `### ${example.name}
 
-  console.log("✅ Scaffolding complete!\n");
-  console.log("Next steps:");
-  console.log(`  cd ${targetDir}`);
-  console.log("  npm install");
-  console.log("  npm run compile");
-  console.log("  npm run test\n");
+${example.description}
+
+- Category: \`${example.category}\`
+- Contract: \`contracts/${example.contractFile}\`
+- Concepts: ${example.concepts.map((c) => `\`${c}\``).join(", ")}
+`,
+    )
+    .join("\n");
+
+  return `# FHEVM Examples: ${projectName}
+
+This project bundles ${examples.length} FHEVM examples.
+
+| Example | Category | Description |
+| ------- | -------- | ----------- |
+${examples.map((e) => `| \`${e.name}\` | \`${e.category}\` | ${e.description} |`).join("\n")}
+
+## Included Examples
+
+${sections}
+## Quick Start
+
+\`\`\`bash
+# Install dependencies
+npm install
+
+# Compile contracts
+npm run compile
+
+# Run tests (local mock)
+npm run test
+
+# Deploy every contract to Sepolia
+npm run deploy:sepolia
+
+# Deploy a single contract by tag
+npx hardhat deploy --network localhost --tags ${examples[0].contractFile.replace(".sol", "")}
+\`\`\`
+
+## Learn More
+
+- [FHEVM Documentation](https://docs.zama.ai/fhevm)
+- [FHEVM Solidity API](https://docs.zama.ai/fhevm/references/api)
+- [Zama Discord](https://discord.gg/zama)
+
+---
+
+Generated by [FHEVM Example Hub CLI](https://github.com/zama-ai/fhevm-hardhat-template)
+`;
 }
 
-function generateReadme(example: ExampleDefinition, targetDir: string): void {
+function singleExampleReadme(example: ExampleDefinition): string {
   const contractName = example.contractFile.replace(".sol", "");
 
-  const readme = `# FHEVM Example: ${example.name}
+  return `# FHEVM Example: ${example.name}
 
 ${example.description}
 
@@ -838,127 +1657,565 @@ npm run test:sepolia
 
 Generated by [FHEVM Example Hub CLI](https://github.com/zama-ai/fhevm-hardhat-template)
 `;
-
-  try {
-    fs.writeFileSync(path.join(targetDir, "README.md"), readme);
-  } catch (error) {
-    console.error(`❌ Failed to generate README.md: ${error instanceof Error ? error.message : String(error)}`);
-    console.log("\nPossible fixes:");
-    console.log("  - Check that you have write permissions in the target directory");
-    console.log(`  - Path: ${path.join(targetDir, "README.md")}`);
-    process.exit(1);
-  }
 }
 
-function generateDocs(): void {
-  console.log("\n📖 Generating documentation...\n");
+// README.md section regenerated by `docs`; everything outside the markers is left as written
+const README_EXAMPLES_START = "<!-- examples:start -->";
+const README_EXAMPLES_END = "<!-- examples:end -->";
 
-  const contractsDir = path.resolve(__dirname, "..", "contracts");
-  const docsDir = path.resolve(__dirname, "..", "docs");
+const README_CATEGORY_HEADINGS: Record<ExampleCategory, string> = {
+  basic: "Basic Operations",
+  encryption: "Encryption Patterns",
+  "access-control": "Access Control",
+  advanced: "Advanced Patterns",
+  "anti-pattern": "Anti-Patterns (Common Mistakes)",
+};
 
-  try {
-    if (!fs.existsSync(docsDir)) {
-      fs.mkdirSync(docsDir, { recursive: true });
+/**
+ * "Available Examples" tables for README.md, one per category, from the registry
+ */
+function renderReadmeExampleTables(): string {
+  let tables = "";
+  for (const category of EXAMPLE_CATEGORIES) {
+    const examples = EXAMPLES.filter((e) => e.category === category);
+    if (examples.length === 0) continue;
+    tables += `### ${README_CATEGORY_HEADINGS[category]}\n\n`;
+    tables += "| Example | Description | Concepts |\n| --- | --- | --- |\n";
+    for (const example of examples) {
+      const concepts = example.concepts.map((c) => (isApiConcept(c) ? `\`${c}\`` : c)).join(", ");
+      tables += `| [\`${example.name}\`](docs/${example.name}.md) | ${example.description} | ${concepts} |\n`;
     }
-  } catch (error) {
-    console.error(`❌ Failed to create docs directory: ${error instanceof Error ? error.message : String(error)}`);
-    console.log("\nPossible fixes:");
-    console.log("  - Check that you have write permissions in the project directory");
-    console.log(`  - Path: ${docsDir}`);
-    process.exit(1);
+    tables += "\n";
+  }
+  return tables;
+}
+
+/**
+ * README.md with the content between the examples markers replaced by freshly generated tables
+ */
+function renderReadmeWithExamples(readme: string): string {
+  // Markers count only on a line of their own, so the README can mention them in prose
+  const start = readme.search(new RegExp(`^${README_EXAMPLES_START}$`, "m"));
+  const end = readme.search(new RegExp(`^${README_EXAMPLES_END}$`, "m"));
+  if (start === -1 || end < start) {
+    throw new Error(`README.md must contain ${README_EXAMPLES_START} and ${README_EXAMPLES_END} markers`);
   }
+  return (
+    readme.slice(0, start + README_EXAMPLES_START.length) + "\n\n" + renderReadmeExampleTables() + readme.slice(end)
+  );
+}
+
+/**
+ * Render every generated docs file (docs/*.md and the README.md example tables, or docs/<locale>/*.md for another
+ * locale), keyed by path relative to the repository root
+ */
+function renderDocs(locale: string, translator: Translator): Record<string, string> {
+  const { t } = translator;
+  const baseDir = path.resolve(__dirname, "..");
+  const contractsDir = path.join(baseDir, "contracts");
+  const outDir = locale === DEFAULT_LOCALE ? "docs" : `docs/${locale}`;
+  const files: Record<string, string> = {};
 
   // Generate index
-  let indexContent = "# FHEVM Examples Documentation\n\n";
-  indexContent += "This documentation is auto-generated from NatSpec comments.\n\n";
-  indexContent += "## Examples\n\n";
+  let indexContent = `# ${t("FHEVM Examples Documentation")}\n\n`;
+  indexContent += `${t("This documentation is auto-generated from NatSpec comments.")}\n\n`;
+  indexContent += `## ${t("Examples")}\n\n`;
 
   for (const example of EXAMPLES) {
     const contractPath = path.join(contractsDir, example.contractFile);
     if (fs.existsSync(contractPath)) {
       try {
         const content = fs.readFileSync(contractPath, "utf-8");
-        const docContent = extractNatSpec(content, example);
-
-        const docPath = path.join(docsDir, `${example.name}.md`);
-        fs.writeFileSync(docPath, docContent);
+        let contractDocs: ContractDoc[];
+        try {
+          contractDocs = loadContractDocs(baseDir, example.contractFile);
+        } catch (error) {
+          console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+          console.log("\nPossible fixes:");
+          console.log("  - NatSpec is read from the solc build output: run npm run compile first");
+          process.exit(1);
+        }
+        const testPath = path.join(baseDir, "test", example.contractFile.replace(".sol", ".ts"));
+        const testSource = fs.existsSync(testPath) ? fs.readFileSync(testPath, "utf-8") : undefined;
+        files[`${outDir}/${example.name}.md`] = renderExampleDoc(
+          content,
+          example,
+          contractDocs,
+          testSource,
+          translator,
+        );
 
-        indexContent += `- [${example.name}](./${example.name}.md) - ${example.description}\n`;
-        console.log(`  ✅ ${example.name}.md`);
+        indexContent += `- [${example.name}](./${example.name}.md) - ${translator.description(example)}\n`;
       } catch (error) {
         console.error(
           `❌ Failed to process ${example.contractFile}: ${error instanceof Error ? error.message : String(error)}`,
         );
         console.log("\nPossible fixes:");
-        console.log("  - Check that you have read permissions for the contract file");
-        console.log("  - Check that you have write permissions for the docs directory");
+        console.log("  - Check that you have read permissions for the contract and test files");
         console.log(`  - Contract path: ${contractPath}`);
-        console.log(`  - Docs directory: ${docsDir}`);
         process.exit(1);
       }
     }
   }
 
+  files[`${outDir}/README.md`] = indexContent;
+
+  // README.md is English only
+  if (locale !== DEFAULT_LOCALE) {
+    return files;
+  }
+  try {
+    files["README.md"] = renderReadmeWithExamples(fs.readFileSync(path.join(baseDir, "README.md"), "utf-8"));
+  } catch (error) {
+    console.error(`❌ Failed to update README.md: ${error instanceof Error ? error.message : String(error)}`);
+    console.log("\nPossible fixes:");
+    console.log(`  - Put the "Available Examples" tables between ${README_EXAMPLES_START} and ${README_EXAMPLES_END}`);
+    process.exit(1);
+  }
+  return files;
+}
+
+/**
+ * Format a generated file exactly as `prettier --write` would, using the repository's Prettier config
+ */
+async function formatWithPrettier(filePath: string, content: string): Promise<string> {
+  const options = await prettier.resolveConfig(filePath);
+  return prettier.format(content, { ...options, filepath: filePath });
+}
+
+/**
+ * Generate docs/*.md (docs/<locale>/*.md for another locale), or with `check`, compare them with what would be
+ * generated and exit non-zero when stale
+ */
+async function generateDocs(check: boolean, locale: string = DEFAULT_LOCALE): Promise<void> {
+  console.log(check ? "\n🔍 Checking documentation...\n" : "\n📖 Generating documentation...\n");
+
+  const baseDir = path.resolve(__dirname, "..");
+  const docsDir = path.join(baseDir, "docs", locale === DEFAULT_LOCALE ? "" : locale);
+
+  let translator: Translator;
   try {
-    fs.writeFileSync(path.join(docsDir, "README.md"), indexContent);
-    console.log("\n✅ Documentation generated in docs/");
+    translator = createTranslator(locale === DEFAULT_LOCALE ? undefined : loadCatalogue(baseDir, locale));
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    console.log("\nPossible fixes:");
+    console.log(`  - Available locales: ${[DEFAULT_LOCALE, ...listLocales(baseDir)].join(", ")}`);
+    console.log(`  - Add locales/${locale}.json with "strings" and "examples" translations`);
+    process.exit(1);
+  }
 
-    // Run prettier to format the generated docs
-    console.log("📝 Formatting with prettier...");
+  const files: Record<string, string> = {};
+  for (const [file, content] of Object.entries(renderDocs(locale, translator))) {
     try {
-      execSync('npx prettier --write "docs/**/*.md"', { stdio: "ignore" });
-      console.log("✅ Formatting complete\n");
-    } catch {
-      console.log("⚠️  Prettier formatting skipped (not available)\n");
+      files[file] = await formatWithPrettier(path.join(baseDir, file), content);
+    } catch (error) {
+      console.error(`❌ Failed to format ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      console.log("\nPossible fixes:");
+      console.log("  - Run npm install so prettier and its plugins are available");
+      console.log("  - Check .prettierrc.yml");
+      process.exit(1);
+    }
+  }
+
+  if (translator.missing.size > 0) {
+    console.log(`⚠️  ${translator.missing.size} string(s) missing from locales/${locale}.json, using English:`);
+    [...translator.missing].forEach((text) => console.log(`   - ${text}`));
+    console.log("");
+  }
+
+  if (check) {
+    const stale = Object.keys(files).filter((file) => {
+      const filePath = path.join(baseDir, file);
+      return !fs.existsSync(filePath) || fs.readFileSync(filePath, "utf-8") !== files[file];
+    });
+    for (const file of stale) {
+      const filePath = path.join(baseDir, file);
+      const current = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8") : "";
+      console.log(`📝 ${file} is out of date`);
+      console.log(unifiedDiff(current, files[file], fs.existsSync(filePath) ? `a/${file}` : "/dev/null", `b/${file}`));
+    }
+
+    if (stale.length > 0) {
+      console.error(`❌ ${stale.length} of ${Object.keys(files).length} generated file(s) are out of date`);
+      console.log("\nPossible fixes:");
+      console.log(
+        `  - Run npx ts-node scripts/cli.ts docs${locale === DEFAULT_LOCALE ? "" : ` --locale ${locale}`} and commit the result`,
+      );
+      console.log("  - Run npm run compile first if the contracts changed");
+      process.exit(1);
+    }
+    console.log(`✅ ${Object.keys(files).length} generated files are up to date\n`);
+    return;
+  }
+
+  try {
+    fs.mkdirSync(docsDir, { recursive: true });
+    for (const [file, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(baseDir, file), content);
+      console.log(`  ✅ ${file}`);
     }
   } catch (error) {
-    console.error(`❌ Failed to write docs index: ${error instanceof Error ? error.message : String(error)}`);
+    console.error(`❌ Failed to write docs: ${error instanceof Error ? error.message : String(error)}`);
     console.log("\nPossible fixes:");
     console.log("  - Check that you have write permissions in the docs directory");
-    console.log(`  - Path: ${path.join(docsDir, "README.md")}`);
+    console.log(`  - Path: ${docsDir}`);
+    process.exit(1);
+  }
+  console.log(`\n✅ Documentation generated in ${path.relative(baseDir, docsDir)}/\n`);
+}
+
+/**
+ * Render the static HTML site (category navigation, concept pages, highlighted sources and tests) into outDir
+ */
+function generateSite(outDir: string): void {
+  console.log("\n🌐 Generating documentation site...\n");
+
+  const baseDir = path.resolve(__dirname, "..");
+  const entries: SiteExample[] = [];
+  for (const example of EXAMPLES) {
+    const testPath = path.join(baseDir, "test", example.contractFile.replace(".sol", ".ts"));
+    try {
+      entries.push({
+        example,
+        source: readContractSource(example),
+        test: fs.existsSync(testPath) ? fs.readFileSync(testPath, "utf-8") : undefined,
+        contracts: loadContractDocs(baseDir, example.contractFile),
+        related: relatedExamples(example),
+      });
+    } catch (error) {
+      console.error(`❌ Failed to load ${example.name}: ${error instanceof Error ? error.message : String(error)}`);
+      console.log("\nPossible fixes:");
+      console.log("  - NatSpec is read from the solc build output: run npm run compile first");
+      console.log(`  - Check that contracts/${example.contractFile} exists`);
+      process.exit(1);
+    }
+  }
+
+  const files = renderSite(entries);
+  try {
+    for (const [file, content] of Object.entries(files)) {
+      const filePath = path.join(outDir, file);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+    }
+  } catch (error) {
+    console.error(`❌ Failed to write site: ${error instanceof Error ? error.message : String(error)}`);
+    console.log("\nPossible fixes:");
+    console.log("  - Check that you have write permissions for the output directory");
+    console.log(`  - Path: ${outDir}`);
     process.exit(1);
   }
+
+  const pages = Object.keys(files).filter((file) => file.endsWith(".html"));
+  console.log(`  ✅ ${pages.filter((file) => file.startsWith("examples/")).length} example pages`);
+  console.log(`  ✅ ${pages.filter((file) => file.startsWith("concepts/")).length} concept pages`);
+  console.log(`\n✅ Site generated in ${path.relative(process.cwd(), outDir) || "."}/`);
+  console.log(`   Open ${path.join(outDir, "index.html")} in a browser, or serve the directory as-is\n`);
+}
+
+function renderParamTable(heading: string, params: ParamDoc[], t: Translate): string {
+  if (params.length === 0) {
+    return "";
+  }
+  let table = `| ${t(heading)} | ${t("Type")} | ${t("Description")} |\n| --- | --- | --- |\n`;
+  for (const param of params) {
+    table += `| \`${param.name || "-"}\` | \`${param.type}\` | ${param.description ?? ""} |\n`;
+  }
+  return table + "\n";
+}
+
+function renderMemberDoc(
+  member: MemberDoc,
+  headingLevel: string,
+  t: Translate,
+  tests: TestCase[] = [],
+  grants: AclGrant[] = [],
+): string {
+  const mutability =
+    member.stateMutability && member.stateMutability !== "nonpayable" ? ` ${member.stateMutability}` : "";
+  let doc = `${headingLevel} \`${member.signature}${mutability}\`\n\n`;
+  if (member.notice) doc += `${member.notice}\n\n`;
+  if (member.details) doc += `> ${member.details}\n\n`;
+  doc += renderParamTable("Parameter", member.params, t);
+  doc += renderParamTable("Returns", member.returns, t);
+  for (const [tag, value] of Object.entries(member.custom)) {
+    doc += `- **@custom:${tag}** ${value}\n`;
+  }
+  if (Object.keys(member.custom).length > 0) doc += "\n";
+  if (grants.length > 0) {
+    doc += `**${t("Access control")}** - ${t("handles this call lets each address use")}\n\n`;
+    doc += `\`\`\`mermaid\n${renderAclDiagram(grants)}\n\`\`\`\n\n`;
+  }
+  for (const test of tests) {
+    doc += `**${t("Usage")}** - _${test.title}_\n\n\`\`\`typescript\n${test.code}\n\`\`\`\n\n`;
+  }
+  return doc;
+}
+
+/**
+ * Markdown API reference of one contract; `tests` and `grants` map function names to the test snippets and
+ * ACL grants shown with them
+ */
+function renderContractDoc(
+  contract: ContractDoc,
+  t: Translate,
+  tests: Map<string, TestCase[]> = new Map(),
+  grants: Map<string, AclGrant[]> = new Map(),
+): string {
+  let doc = `## ${t("API")}: ${contract.name}\n\n`;
+  if (contract.title) doc += `**${contract.title}**\n\n`;
+  if (contract.notice) doc += `${contract.notice}\n\n`;
+  if (contract.details) doc += `> ${contract.details}\n\n`;
+  if (contract.author) doc += `- **@author** ${contract.author}\n`;
+  for (const [tag, value] of Object.entries(contract.custom)) {
+    doc += `- **@custom:${tag}** ${value}\n`;
+  }
+  if (contract.author || Object.keys(contract.custom).length > 0) doc += "\n";
+
+  if (contract.constructorDoc) {
+    doc += `### ${t("Constructor")}\n\n`;
+    doc += renderMemberDoc(contract.constructorDoc, "####", t, [], grants.get("constructor"));
+  }
+  if (contract.functions.length > 0) {
+    doc += `### ${t("Functions")}\n\n`;
+    doc += contract.functions.map((f) => renderMemberDoc(f, "####", t, tests.get(f.name), grants.get(f.name))).join("");
+  }
+  if (contract.events.length > 0) {
+    doc += `### ${t("Events")}\n\n`;
+    doc += contract.events.map((e) => renderMemberDoc(e, "####", t)).join("");
+  }
+  return doc;
 }
 
-function extractNatSpec(solidityCode: string, example: ExampleDefinition): string {
+function renderExampleDoc(
+  solidityCode: string,
+  example: ExampleDefinition,
+  contracts: ContractDoc[],
+  testSource: string | undefined,
+  translator: Translator,
+): string {
+  const { t } = translator;
   const contractName = example.contractFile.replace(".sol", "");
+  const testCases = testSource ? parseTestCases(testSource) : [];
 
   let doc = `# ${contractName}\n\n`;
-  doc += `${example.description}\n\n`;
-  doc += `## Category: ${example.category}\n\n`;
-  doc += `## Concepts\n\n`;
+  doc += `${translator.description(example)}\n\n`;
+  doc += `## ${t("Category")}: ${t(example.category)}\n\n`;
+  doc += `## ${t("Concepts")}\n\n`;
   doc += example.concepts.map((c) => `- \`${c}\``).join("\n");
-  doc += "\n\n## Source Code\n\n";
+  doc += "\n\n";
+
+  // Documented contracts first (the example contract, then anything else declared in the file)
+  const ordered = [...contracts].sort((a, b) => Number(b.name === contractName) - Number(a.name === contractName));
+  doc += ordered
+    .map((contract) =>
+      contract.name === contractName
+        ? renderContractDoc(contract, t, matchTestCases(testCases, contract.functions), parseAclGrants(solidityCode))
+        : renderContractDoc(contract, t),
+    )
+    .join("\n");
+
+  const flowTest = pickFlowTest(testCases);
+  const mainContract = contracts.find((c) => c.name === contractName);
+  if (flowTest && mainContract) {
+    doc += `## ${t("Client Flow")}\n\n`;
+    doc += `${t("Encrypt → transaction → decrypt, as in the test _{title}_:", { title: flowTest.title })}\n\n`;
+    doc += `\`\`\`mermaid\n${renderSequenceDiagram(flowTest, contractName, mainContract.functions)}\n\`\`\`\n\n`;
+  }
+
+  doc += `## ${t("Source Code")}\n\n`;
   doc += "```solidity\n";
   doc += solidityCode;
   doc += "\n```\n";
 
-  // Extract NatSpec comments
-  const natspecRegex = /\/\/\/\s*@(\w+)\s+(.+)/g;
-  let match;
-  const natspec: { [key: string]: string[] } = {};
+  return doc;
+}
 
-  while ((match = natspecRegex.exec(solidityCode)) !== null) {
-    const tag = match[1];
-    const value = match[2];
-    if (!natspec[tag]) {
-      natspec[tag] = [];
-    }
-    natspec[tag].push(value);
+/**
+ * Parse a comma-separated answer of names and/or 1-based indexes into the matching choices
+ */
+function pickChoices(answer: string, choices: string[]): string[] | undefined {
+  const picked: string[] = [];
+  for (const token of answer.split(",").map((t) => t.trim())) {
+    if (token === "") continue;
+    const index = Number(token);
+    const choice = Number.isInteger(index) ? choices[index - 1] : choices.find((c) => c === token);
+    if (!choice) return undefined;
+    if (!picked.includes(choice)) picked.push(choice);
   }
+  return picked.length > 0 ? picked : undefined;
+}
+
+function splitList(value: string | true | undefined): string[] | undefined {
+  return typeof value === "string"
+    ? value
+        .split(",")
+        .map((v) => v.trim())
+        .filter((v) => v !== "")
+    : undefined;
+}
+
+/**
+ * Line-based prompter that also works with piped stdin, where lines can arrive before they are asked for
+ */
+function createPrompter(): { question: (prompt: string) => Promise<string>; close: () => void } {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: process.stdin.isTTY });
+  const lines: string[] = [];
+  const waiting: ((line: string) => void)[] = [];
+  let closed = false;
+
+  rl.on("line", (line) => {
+    if (waiting.length === 0) {
+      lines.push(line);
+      return;
+    }
+    if (!process.stdin.isTTY) process.stdout.write(`${line}\n`);
+    waiting.shift()!(line);
+  });
+  rl.on("close", () => {
+    closed = true;
+    waiting.splice(0).forEach((resolve) => resolve(""));
+  });
+
+  return {
+    question: (prompt: string) => {
+      process.stdout.write(prompt);
+      if (lines.length > 0) {
+        const line = lines.shift()!;
+        if (!process.stdin.isTTY) process.stdout.write(`${line}\n`);
+        return Promise.resolve(line);
+      }
+      if (closed) {
+        return Promise.reject(new Error("Input closed before all questions were answered"));
+      }
+      return new Promise((resolve) => waiting.push(resolve));
+    },
+    close: () => rl.close(),
+  };
+}
+
+/**
+ * Interactive project setup; with --yes every answer comes from flags or defaults
+ */
+async function initWizard(argv: string[]): Promise<void> {
+  const { positional, options } = parseArgs(argv, ["yes"]);
+  const nonInteractive = options.yes === true;
+  const rl = nonInteractive ? undefined : createPrompter();
+
+  // Ask until the answer validates; in --yes mode the default is used once and must be valid
+  const ask = async <T>(question: string, defaultAnswer: string, validate: (answer: string) => T | undefined) => {
+    for (;;) {
+      const raw = rl ? (await rl.question(`${question} [${defaultAnswer}]: `)).trim() : "";
+      const value = validate(raw === "" ? defaultAnswer : raw);
+      if (value !== undefined) return value;
+      if (!rl) {
+        console.error(`❌ Invalid value for "${question}": ${defaultAnswer}`);
+        process.exit(1);
+      }
+      console.log("   Invalid answer, please try again.");
+    }
+  };
+
+  try {
+    console.log("\n🧙 FHEVM Example Hub - new project\n");
+
+    // 1. Category
+    const categoryFlag = typeof options.category === "string" ? options.category : undefined;
+    const exampleFlag = splitList(options.examples);
+    let category: string;
+    if (exampleFlag || (nonInteractive && !categoryFlag)) {
+      category = "all";
+    } else {
+      const categories = ["all", ...EXAMPLE_CATEGORIES];
+      if (rl) {
+        categories.forEach((c, i) => {
+          const count = c === "all" ? EXAMPLES.length : EXAMPLES.filter((e) => e.category === c).length;
+          console.log(`  ${i + 1}. ${c} (${count})`);
+        });
+      }
+      category = await ask("Category", categoryFlag || "all", (a) => pickChoices(a, categories)?.[0]);
+    }
 
-  if (Object.keys(natspec).length > 0) {
-    doc += "\n## NatSpec Documentation\n\n";
-    for (const [tag, values] of Object.entries(natspec)) {
-      doc += `### @${tag}\n\n`;
-      values.forEach((v) => {
-        doc += `- ${v}\n`;
+    // 2. Examples
+    const candidates = EXAMPLES.filter((e) => category === "all" || e.category === category).map((e) => e.name);
+    if (rl && !exampleFlag) {
+      console.log("");
+      candidates.forEach((name, i) => {
+        const example = EXAMPLES.find((e) => e.name === name)!;
+        console.log(`  ${i + 1}. ${name} - ${example.description}`);
       });
-      doc += "\n";
     }
+    const defaultExamples = exampleFlag ? exampleFlag.join(",") : nonInteractive ? candidates.join(",") : "1";
+    const exampleNames = await ask("Example(s), comma-separated", defaultExamples, (a) => pickChoices(a, candidates));
+
+    // 3. Target directory
+    const defaultDir =
+      (typeof options.dir === "string" && options.dir) ||
+      positional[0] ||
+      (exampleNames.length === 1 ? `fhevm-example-${exampleNames[0]}` : "fhevm-examples");
+    const targetDir = await ask("Target directory", defaultDir, (a) =>
+      fs.existsSync(path.resolve(a)) ? undefined : a,
+    );
+
+    // 4. Package manager
+    const packageManagerFlag = typeof options["package-manager"] === "string" ? options["package-manager"] : "npm";
+    const packageManager = await ask(`Package manager (${PACKAGE_MANAGERS.join("/")})`, packageManagerFlag, (a) =>
+      PACKAGE_MANAGERS.find((pm) => pm === a),
+    );
+
+    // 5. Networks
+    const networksFlag = splitList(options.networks)?.join(",") || SUPPORTED_NETWORKS.join(",");
+    const networks = await ask(`Networks (${SUPPORTED_NETWORKS.join(", ")})`, networksFlag, (a) => {
+      const picked = pickChoices(a, SUPPORTED_NETWORKS);
+      return picked && !picked.includes("hardhat") ? ["hardhat", ...picked] : picked;
+    });
+
+    console.log("\nSummary:");
+    console.log(`  Examples:        ${exampleNames.join(", ")}`);
+    console.log(`  Directory:       ${path.resolve(targetDir)}`);
+    console.log(`  Package manager: ${packageManager}`);
+    console.log(`  Networks:        ${networks.join(", ")}`);
+
+    if (rl) {
+      const confirmed = await ask("Create project? (y/n)", "y", (a) => (/^(y|yes|n|no)$/i.test(a) ? a : undefined));
+      if (/^n/i.test(confirmed)) {
+        console.log("\nAborted.\n");
+        return;
+      }
+    }
+
+    scaffoldExample(exampleNames, targetDir, { packageManager, networks });
+  } finally {
+    rl?.close();
   }
+}
 
-  return doc;
+/**
+ * Split CLI arguments into positionals and --options.
+ * Options listed in booleanFlags take no value; others accept "--key value" or "--key=value".
+ */
+function parseArgs(
+  argv: string[],
+  booleanFlags: string[] = [],
+): { positional: string[]; options: Record<string, string | true> } {
+  const positional: string[] = [];
+  const options: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      positional.push(arg);
+      continue;
+    }
+    const [key, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+    if (inlineValue !== undefined) {
+      options[key] = inlineValue;
+    } else if (booleanFlags.includes(key) || i + 1 >= argv.length || argv[i + 1].startsWith("--")) {
+      options[key] = true;
+    } else {
+      options[key] = argv[++i];
+    }
+  }
+  return { positional, options };
 }
 
 // Main CLI
@@ -966,16 +2223,113 @@ const args = process.argv.slice(2);
 const command = args[0];
 
 switch (command) {
-  case "list":
-    listExamples();
+  case "list": {
+    const { options } = parseArgs(args.slice(1), ["json"]);
+    listExamples(options.json === true, {
+      concept: typeof options.concept === "string" ? options.concept : undefined,
+      category: typeof options.category === "string" ? options.category : undefined,
+    });
     break;
-  case "scaffold":
-    if (!args[1]) {
+  }
+  case "search": {
+    const { positional, options } = parseArgs(args.slice(1), ["json"]);
+    if (!positional[0]) {
+      console.error("❌ Please specify a search term");
+      console.log("Usage: npx ts-node scripts/cli.ts search <term> [--category <name>] [--json]");
+      process.exit(1);
+    }
+    showSearchResults(positional.join(" "), options.json === true, {
+      category: typeof options.category === "string" ? options.category : undefined,
+    });
+    break;
+  }
+  case "info": {
+    const { positional, options } = parseArgs(args.slice(1), ["json"]);
+    if (!positional[0]) {
+      console.error("❌ Please specify an example name");
+      console.log("Usage: npx ts-node scripts/cli.ts info <example-name> [--json]");
+      process.exit(1);
+    }
+    showExampleInfo(positional[0], options.json === true);
+    break;
+  }
+  case "scaffold": {
+    const { positional, options } = parseArgs(args.slice(1), ["verify"]);
+    const installMode = typeof options.install === "string" ? options.install : "link";
+    if (installMode !== "link" && installMode !== "offline") {
+      console.error(`❌ Unknown install mode: ${installMode}`);
+      console.log(
+        "Usage: npx ts-node scripts/cli.ts scaffold <example-name> [output-dir] --verify [--install link|offline]",
+      );
+      process.exit(1);
+    }
+    const verify = (projectDir: string) => {
+      if (options.verify && !verifyScaffold(projectDir, installMode)) {
+        process.exit(1);
+      }
+    };
+    if (typeof options.examples === "string") {
+      const names = options.examples
+        .split(",")
+        .map((n) => n.trim())
+        .filter((n) => n !== "");
+      if (names.length === 0 || !positional[0]) {
+        console.error("❌ Please specify the examples and a target directory");
+        console.log("Usage: npx ts-node scripts/cli.ts scaffold --examples <a,b,c> <output-dir>");
+        process.exit(1);
+      }
+      verify(scaffoldExample(names, positional[0]));
+      break;
+    }
+    if (!positional[0]) {
+      console.error("❌ Please specify an example name");
+      console.log("Usage: npx ts-node scripts/cli.ts scaffold <example-name> [output-dir]");
+      console.log("       npx ts-node scripts/cli.ts scaffold --examples <a,b,c> <output-dir>");
+      process.exit(1);
+    }
+    verify(scaffoldExample([positional[0]], positional[1]));
+    break;
+  }
+  case "add": {
+    const { positional, options } = parseArgs(args.slice(1), ["force", "skip"]);
+    if (!positional[0]) {
       console.error("❌ Please specify an example name");
-      console.log("Usage: npx ts-node scripts/cli.ts scaffold <example-name>");
+      console.log("Usage: npx ts-node scripts/cli.ts add <example-name> [--into <dir>] [--force | --skip]");
+      process.exit(1);
+    }
+    if (options.force && options.skip) {
+      console.error("❌ --force and --skip cannot be used together");
       process.exit(1);
     }
-    scaffoldExample(args[1], args[2]);
+    const projectDir = typeof options.into === "string" ? options.into : process.cwd();
+    addExample(positional[0], projectDir, options.force ? "force" : options.skip ? "skip" : "abort");
+    break;
+  }
+  case "diff": {
+    const { positional } = parseArgs(args.slice(1));
+    diffProject(positional[0] || process.cwd());
+    break;
+  }
+  case "upgrade": {
+    const { positional, options } = parseArgs(args.slice(1), ["force"]);
+    upgradeProject(positional[0] || process.cwd(), options.force === true);
+    break;
+  }
+  case "concepts": {
+    const { positional, options } = parseArgs(args.slice(1), ["json", "write"]);
+    extractConcepts(positional[0], options.json === true, options.write === true);
+    break;
+  }
+  case "coverage-matrix": {
+    const { options } = parseArgs(args.slice(1), ["json"]);
+    coverageMatrix(options.json === true, typeof options.out === "string" ? options.out : undefined);
+    break;
+  }
+  case "init":
+    initWizard(args.slice(1)).catch((error) => {
+      console.error(`❌ init failed: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    });
     break;
   case "generate-tests":
     if (!args[1]) {
@@ -985,17 +2339,53 @@ switch (command) {
     }
     generateTests(args[1], args[2]);
     break;
-  case "docs":
-    generateDocs();
+  case "docs": {
+    const { options } = parseArgs(args.slice(1), ["site", "check"]);
+    if (options.site) {
+      generateSite(
+        path.resolve(typeof options.out === "string" ? options.out : path.join(__dirname, "..", "docs", "site")),
+      );
+    } else {
+      const locale = typeof options.locale === "string" ? options.locale : DEFAULT_LOCALE;
+      generateDocs(options.check === true, locale).catch((error) => {
+        console.error(`❌ docs failed: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      });
+    }
     break;
+  }
   default:
     console.log(`
 FHEVM Example Hub CLI
 
 Usage:
-  npx ts-node scripts/cli.ts list                    - List available examples
+  npx ts-node scripts/cli.ts list [--json] [--concept <c>] [--category <cat>]
+                                                     - List examples, optionally filtered
+  npx ts-node scripts/cli.ts search <term> [--json]  - Rank examples by concept and source matches
+  npx ts-node scripts/cli.ts info <name> [--json]    - Show functions, events and types of an example
   npx ts-node scripts/cli.ts scaffold <name>         - Create a new example project
+  npx ts-node scripts/cli.ts scaffold --examples <a,b,c> <dir>
+                                                     - Bundle several examples into one project
+  npx ts-node scripts/cli.ts scaffold <name> --verify [--install link|offline]
+                                                     - Scaffold, then install, compile and test it
+  npx ts-node scripts/cli.ts add <name> [--into <dir>] [--force | --skip]
+                                                     - Add an example to an existing Hardhat project
+  npx ts-node scripts/cli.ts diff [dir]              - Show hub changes since a project was scaffolded
+  npx ts-node scripts/cli.ts upgrade [dir] [--force] - Apply them, merging local edits; overlapping ones conflict
+  npx ts-node scripts/cli.ts init [--yes]            - Create a project interactively
   npx ts-node scripts/cli.ts generate-tests <name>   - Generate test file for an example
+  npx ts-node scripts/cli.ts concepts [name] [--json] [--write]
+                                                     - Extract FHE calls and types, compare with declared concepts
+  npx ts-node scripts/cli.ts coverage-matrix [--json] [--out <file>]
+                                                     - FHE operations × encrypted types × examples
   npx ts-node scripts/cli.ts docs                    - Generate documentation
+  npx ts-node scripts/cli.ts docs --check            - Fail with a diff if generated docs are out of date
+  npx ts-node scripts/cli.ts docs --locale <locale>  - Translated docs in docs/<locale>/ (from locales/<locale>.json)
+  npx ts-node scripts/cli.ts docs --site [--out <dir>]
+                                                     - Build the static HTML site (default: docs/site)
+
+Options for init --yes:
+  --examples <a,b>  --category <name>  --dir <path>
+  --package-manager <npm|yarn|pnpm|bun>  --networks <hardhat,anvil,sepolia>
 `);
 }
@@ -0,0 +1,126 @@
+/**
+ * FHE API coverage across the examples: which operations are taught, on which encrypted types, and by whom
+ */
+
+import { ACL_FUNCTIONS, parseFheCalls } from "./solidity";
+
+export const ENCRYPTED_TYPES = ["ebool", "euint8", "euint16", "euint32", "euint64", "euint128", "euint256", "eaddress"];
+
+// FHE library functions worth teaching; casts and random generators are grouped per family (asEuintX, randEuintX)
+export const FHE_OPERATIONS = [
+  "add",
+  "sub",
+  "mul",
+  "div",
+  "rem",
+  "neg",
+  "min",
+  "max",
+  "and",
+  "or",
+  "xor",
+  "not",
+  "shl",
+  "shr",
+  "rotl",
+  "rotr",
+  "eq",
+  "ne",
+  "lt",
+  "le",
+  "gt",
+  "ge",
+  "select",
+  "asEuintX",
+  "randEuintX",
+  "fromExternal",
+  "isInitialized",
+  ...ACL_FUNCTIONS,
+];
+
+export interface CoverageInput {
+  name: string;
+  source: string;
+}
+
+export interface CoverageMatrix {
+  types: string[];
+  // "FHE.add" -> "euint32" -> example names; operand types that could not be inferred are keyed "unknown"
+  operations: Record<string, Record<string, string[]>>;
+  // Operations no example uses
+  uncoveredOperations: string[];
+  // Encrypted types no example operates on
+  uncoveredTypes: string[];
+}
+
+/**
+ * Family an FHE function belongs to in FHE_OPERATIONS, e.g. asEuint64 -> asEuintX, asEbool -> asEuintX
+ */
+function operationFamily(name: string): string {
+  if (/^asE\w+$/.test(name)) return "asEuintX";
+  if (/^randE\w+$/.test(name)) return "randEuintX";
+  return name;
+}
+
+export function buildCoverageMatrix(examples: CoverageInput[]): CoverageMatrix {
+  const operations: Record<string, Record<string, string[]>> = {};
+  for (const operation of FHE_OPERATIONS) {
+    operations[`FHE.${operation}`] = {};
+  }
+
+  for (const example of examples) {
+    for (const call of parseFheCalls(example.source)) {
+      const cells = (operations[`FHE.${operationFamily(call.name)}`] ??= {});
+      const names = (cells[call.operandType ?? "unknown"] ??= []);
+      if (!names.includes(example.name)) {
+        names.push(example.name);
+      }
+    }
+  }
+
+  const coveredTypes = new Set(Object.values(operations).flatMap((cells) => Object.keys(cells)));
+  return {
+    types: ENCRYPTED_TYPES,
+    operations,
+    uncoveredOperations: Object.keys(operations).filter((op) => Object.keys(operations[op]).length === 0),
+    uncoveredTypes: ENCRYPTED_TYPES.filter((type) => !coveredTypes.has(type)),
+  };
+}
+
+export function renderCoverageMarkdown(matrix: CoverageMatrix, exampleNames: string[]): string {
+  const operations = Object.keys(matrix.operations);
+  const examplesUsing = (op: string) => [...new Set(Object.values(matrix.operations[op]).flat())].sort();
+  const covered = operations.length - matrix.uncoveredOperations.length;
+
+  const lines = [
+    "# FHE API Coverage",
+    "",
+    `${covered} of ${operations.length} FHE operations are used by at least one of the ${exampleNames.length} examples.`,
+    "",
+    `- Operations without an example: ${matrix.uncoveredOperations.map((op) => `\`${op}\``).join(", ") || "none"}`,
+    `- Encrypted types without an example: ${matrix.uncoveredTypes.map((type) => `\`${type}\``).join(", ") || "none"}`,
+    "",
+    "## Operations × Types",
+    "",
+    "Each cell is the number of examples using the operation on that type.",
+    "",
+    `| Operation | ${matrix.types.map((type) => `\`${type}\``).join(" | ")} | Examples |`,
+    `| --- | ${matrix.types.map(() => "---").join(" | ")} | --- |`,
+    ...operations.map((op) => {
+      const cells = matrix.types.map((type) => String(matrix.operations[op][type]?.length || ""));
+      const examples = examplesUsing(op);
+      return `| \`${op}\` | ${cells.join(" | ")} | ${examples.length > 0 ? examples.join(", ") : "❌"} |`;
+    }),
+    "",
+    "## Operations × Examples",
+    "",
+    `| Operation | ${exampleNames.map((name) => `\`${name}\``).join(" | ")} |`,
+    `| --- | ${exampleNames.map(() => "---").join(" | ")} |`,
+    ...operations.map((op) => {
+      const examples = examplesUsing(op);
+      return `| \`${op}\` | ${exampleNames.map((name) => (examples.includes(name) ? "✅" : "")).join(" | ")} |`;
+    }),
+    "",
+  ];
+  return lines.join("\n");
+}
@@ -0,0 +1,100 @@
+/**
+ * Mermaid diagrams for the docs: who may decrypt which handle, and the client encrypt → tx → decrypt flow
+ */
+
+import { AclGrant } from "./solidity";
+import { TestCase } from "./snippets";
+
+/**
+ * Mermaid label text; quotes would end the label
+ */
+function label(text: string): string {
+  return text.replace(/"/g, "#quot;");
+}
+
+/**
+ * Flowchart from each handle to the addresses a function grants access to it
+ */
+export function renderAclDiagram(grants: AclGrant[]): string {
+  const handles = [...new Set(grants.map((g) => g.handle))];
+  const grantees = [...new Set(grants.map((g) => g.grantee))];
+
+  const lines = ["flowchart LR"];
+  handles.forEach((handle, i) => lines.push(`  h${i}["${label(handle)}"]`));
+  grantees.forEach((grantee, i) =>
+    lines.push(`  g${i}(["${label(grantee === "address(this)" ? "contract (address(this))" : grantee)}"])`),
+  );
+  for (const grant of grants) {
+    lines.push(`  h${handles.indexOf(grant.handle)} -- ${grant.call} --> g${grantees.indexOf(grant.grantee)}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Sequence diagram of a test: inputs encrypted by a signer, calls to the contract, and user decryptions.
+ * `functions` are the contract's functions, so unrelated method calls in the test are ignored.
+ */
+export function renderSequenceDiagram(
+  testCase: TestCase,
+  contractName: string,
+  functions: { name: string; stateMutability?: string }[],
+): string {
+  const code = testCase.code;
+  const steps: { index: number; lines: (signer: string) => string[]; signer: string }[] = [];
+  const signerIn = (text: string) => /signers\.(\w+)/.exec(text)?.[1] ?? "deployer";
+
+  // createEncryptedInput(contractAddress, signers.alice.address).add64(x).encrypt()
+  for (const match of code.matchAll(/createEncryptedInput\(([^)]*)\)([\s\S]*?)\.encrypt\(\)/g)) {
+    const values = [...match[2].matchAll(/\.(add\w+)\(([^)]*)\)/g)].map((m) => `${m[1]}(${m[2]})`);
+    steps.push({
+      index: match.index ?? 0,
+      signer: signerIn(match[1]),
+      lines: (s) => [`  ${s}->>FHEVM: encrypt ${values.join(", ")}`, `  FHEVM-->>${s}: handles + inputProof`],
+    });
+  }
+
+  // contract.connect(signers.alice).transfer(...) or contract.balanceOf()
+  for (const match of code.matchAll(/(?:\.connect\(\s*([^)]*)\)\s*)?\.(\w+)\(/g)) {
+    const fn = functions.find((f) => f.name === match[2]);
+    if (!fn) continue;
+    const view = fn.stateMutability === "view" || fn.stateMutability === "pure";
+    steps.push({
+      index: match.index ?? 0,
+      signer: match[1] ? signerIn(match[1]) : "deployer",
+      lines: (s) =>
+        view
+          ? [`  ${s}->>${contractName}: ${fn.name}()`, `  ${contractName}-->>${s}: handle`]
+          : [`  ${s}->>${contractName}: ${fn.name}(...) tx`, `  ${contractName}-->>${s}: receipt`],
+    });
+  }
+
+  // fhevm.userDecryptEuint(FhevmType.euint64, handle, contractAddress, signers.alice)
+  for (const match of code.matchAll(/userDecrypt(\w+)\(([^;]*?)\)\s*;/g)) {
+    steps.push({
+      index: match.index ?? 0,
+      signer: signerIn(match[2]),
+      lines: (s) => [`  ${s}->>FHEVM: userDecrypt${match[1]}(handle)`, `  FHEVM-->>${s}: cleartext`],
+    });
+  }
+
+  steps.sort((a, b) => a.index - b.index);
+  const signers = [...new Set(steps.map((step) => step.signer))];
+  return [
+    "sequenceDiagram",
+    ...signers.map((s) => `  actor ${s}`),
+    `  participant ${contractName}`,
+    "  participant FHEVM",
+    ...steps.flatMap((step) => step.lines(step.signer)),
+  ].join("\n");
+}
+
+/**
+ * The test that best shows the whole client flow: encrypt, send, then decrypt, falling back to any decryption
+ */
+export function pickFlowTest(cases: TestCase[]): TestCase | undefined {
+  const decrypts = (c: TestCase) => c.calls.some((call) => call.startsWith("userDecrypt"));
+  return (
+    cases.find((c) => c.calls.includes("createEncryptedInput") && decrypts(c) && !/\.reverted/.test(c.code)) ??
+    cases.find((c) => decrypts(c) && !/\.reverted/.test(c.code))
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * Line-based unified diff, used to show how generated files differ from what is on disk
+ */
+
+type DiffOp = { kind: " " | "-" | "+"; line: string };
+
+/**
+ * Edit script turning oldLines into newLines, from a longest common subsequence table
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+  const lcs = Array.from({ length: n + 1 }, () => new Int32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && oldLines[i] === newLines[j]) {
+      ops.push({ kind: " ", line: oldLines[i++] });
+      j++;
+    } else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push({ kind: "-", line: oldLines[i++] });
+    } else {
+      ops.push({ kind: "+", line: newLines[j++] });
+    }
+  }
+  return ops;
+}
+
+/**
+ * Lines with their terminator, so a last line without a newline differs from the same line with one
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Unified diff (as produced by `diff -u`) between two texts, or "" when they are identical
+ */
+export function unifiedDiff(oldText: string, newText: string, oldLabel: string, newLabel: string, context = 3): string {
+  if (oldText === newText) {
+    return "";
+  }
+
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const changed = ops.map((op, index) => (op.kind === " " ? -1 : index)).filter((index) => index >= 0);
+
+  // Group changes whose context windows touch into hunks of [start, end) op indices
+  const hunks: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const [start, end] of hunks) {
+    // 1-based line numbers of the first line in the hunk on each side
+    let oldLine = 1;
+    let newLine = 1;
+    for (const op of ops.slice(0, start)) {
+      if (op.kind !== "+") oldLine++;
+      if (op.kind !== "-") newLine++;
+    }
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.kind !== "+").length;
+    const newCount = hunk.filter((op) => op.kind !== "-").length;
+    output.push(
+      `@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`,
+    );
+    for (const op of hunk) {
+      output.push(`${op.kind}${op.line.replace(/\n$/, "")}`);
+      if (!op.line.endsWith("\n")) {
+        output.push("\\ No newline at end of file");
+      }
+    }
+  }
+  return output.join("\n") + "\n";
+}
+
+// A change one side made to the base: base lines [start, end) replaced by `lines`
+type Hunk = { start: number; end: number; lines: string[] };
+
+function changedHunks(ops: DiffOp[]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let baseIndex = 0;
+  let current: Hunk | undefined;
+  for (const op of ops) {
+    if (op.kind === " ") {
+      current = undefined;
+      baseIndex++;
+      continue;
+    }
+    if (!current) {
+      current = { start: baseIndex, end: baseIndex, lines: [] };
+      hunks.push(current);
+    }
+    if (op.kind === "-") {
+      current.end = ++baseIndex;
+    } else {
+      current.lines.push(op.line);
+    }
+  }
+  return hunks;
+}
+
+export interface MergeResult {
+  // Merged text, only set when no hunks conflict
+  content?: string;
+  // 1-based, inclusive base line ranges that both sides changed differently
+  conflicts: Array<[number, number]>;
+}
+
+/**
+ * Line-level three-way merge (as `diff3 -m`): changes either side made to `base` are combined, and hunks that
+ * overlap or touch are a conflict unless both sides made the same change
+ */
+export function mergeLines(base: string, local: string, upstream: string): MergeResult {
+  const baseLines = splitLines(base);
+  const sides = [local, upstream].map((text) => changedHunks(diffLines(baseLines, splitLines(text))));
+  const hunks = sides
+    .flatMap((side, index) => side.map((hunk) => ({ ...hunk, side: index })))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const merged: string[] = [];
+  const conflicts: Array<[number, number]> = [];
+  let baseIndex = 0;
+  for (let i = 0; i < hunks.length; ) {
+    // Cluster hunks whose base ranges overlap or touch
+    const cluster = [hunks[i++]];
+    let end = cluster[0].end;
+    while (i < hunks.length && hunks[i].start <= end) {
+      end = Math.max(end, hunks[i].end);
+      cluster.push(hunks[i++]);
+    }
+    const start = cluster[0].start;
+    merged.push(...baseLines.slice(baseIndex, start));
+    baseIndex = end;
+
+    // Each side's version of base lines [start, end)
+    const versions = [0, 1].map((side) => {
+      const lines: string[] = [];
+      let index = start;
+      for (const hunk of cluster.filter((h) => h.side === side)) {
+        lines.push(...baseLines.slice(index, hunk.start), ...hunk.lines);
+        index = hunk.end;
+      }
+      return { changed: cluster.some((h) => h.side === side), lines: [...lines, ...baseLines.slice(index, end)] };
+    });
+
+    if (!versions[1].changed || versions[0].lines.join("") === versions[1].lines.join("")) {
+      merged.push(...versions[0].lines);
+    } else if (!versions[0].changed) {
+      merged.push(...versions[1].lines);
+    } else {
+      conflicts.push([start + 1, Math.max(start + 1, end)]);
+    }
+  }
+  merged.push(...baseLines.slice(baseIndex));
+
+  return conflicts.length > 0 ? { conflicts } : { content: merged.join(""), conflicts };
+}
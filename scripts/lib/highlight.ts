@@ -0,0 +1,141 @@
+/**
+ * Minimal syntax highlighting for the static docs site
+ *
+ * Produces HTML with <span class="tok-*"> wrappers, so the site needs no client-side script or CDN.
+ */
+
+export type HighlightLanguage = "solidity" | "typescript";
+
+const KEYWORDS: Record<HighlightLanguage, string[]> = {
+  solidity: [
+    "pragma",
+    "solidity",
+    "import",
+    "from",
+    "contract",
+    "interface",
+    "library",
+    "is",
+    "abstract",
+    "function",
+    "constructor",
+    "modifier",
+    "event",
+    "emit",
+    "error",
+    "revert",
+    "require",
+    "struct",
+    "enum",
+    "mapping",
+    "returns",
+    "return",
+    "if",
+    "else",
+    "for",
+    "while",
+    "do",
+    "break",
+    "continue",
+    "new",
+    "delete",
+    "public",
+    "private",
+    "internal",
+    "external",
+    "view",
+    "pure",
+    "payable",
+    "constant",
+    "immutable",
+    "memory",
+    "storage",
+    "calldata",
+    "override",
+    "virtual",
+    "indexed",
+    "using",
+    "true",
+    "false",
+  ],
+  typescript: [
+    "import",
+    "export",
+    "from",
+    "as",
+    "const",
+    "let",
+    "var",
+    "function",
+    "async",
+    "await",
+    "return",
+    "if",
+    "else",
+    "for",
+    "of",
+    "in",
+    "while",
+    "new",
+    "class",
+    "extends",
+    "type",
+    "interface",
+    "typeof",
+    "throw",
+    "try",
+    "catch",
+    "true",
+    "false",
+    "null",
+    "undefined",
+    "this",
+  ],
+};
+
+const TYPE_PATTERNS: Record<HighlightLanguage, RegExp> = {
+  solidity: /^(?:u?int\d*|address|bool|string|bytes\d*|e(?:bool|uint\d+|address)|externalE\w+)$/,
+  typescript: /^(?:string|number|boolean|bigint|void|any|unknown|Promise|[A-Z]\w*)$/,
+};
+
+// Comments, strings, numbers and identifiers; everything else is emitted as-is
+const TOKEN =
+  /(\/\/[^\n]*|\/\*[\s\S]*?\*\/)|("(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`)|(\b(?:0x[\da-fA-F]+|\d[\d_]*(?:\.\d+)?)n?\b)|([A-Za-z_$][\w$]*)/g;
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function span(kind: string, text: string): string {
+  return `<span class="tok-${kind}">${escapeHtml(text)}</span>`;
+}
+
+export function highlight(code: string, language: HighlightLanguage): string {
+  const keywords = new Set(KEYWORDS[language]);
+  let html = "";
+  let last = 0;
+
+  for (const match of code.matchAll(TOKEN)) {
+    const index = match.index ?? 0;
+    html += escapeHtml(code.slice(last, index));
+    last = index + match[0].length;
+
+    const [token, comment, str, num, word] = match;
+    if (comment) {
+      html += span("comment", token);
+    } else if (str) {
+      html += span("string", token);
+    } else if (num) {
+      html += span("number", token);
+    } else if (word && keywords.has(word)) {
+      html += span("keyword", token);
+    } else if (word && TYPE_PATTERNS[language].test(word)) {
+      html += span("type", token);
+    } else if (word && /^\s*\(/.test(code.slice(last))) {
+      html += span("function", token);
+    } else {
+      html += escapeHtml(token);
+    }
+  }
+  return html + escapeHtml(code.slice(last));
+}
@@ -0,0 +1,75 @@
+/**
+ * Translation catalogues for generated docs
+ *
+ * locales/<locale>.json translates the generator's fixed strings, keyed by their English text, and the registry
+ * descriptions, keyed by example name. Anything missing falls back to English.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+export const DEFAULT_LOCALE = "en";
+
+export interface Catalogue {
+  // English text -> translation; "{name}" placeholders are filled in after translating
+  strings: Record<string, string>;
+  // Example name -> translated description
+  examples: Record<string, string>;
+}
+
+export type Translate = (text: string, values?: Record<string, string>) => string;
+
+export interface Translator {
+  t: Translate;
+  description: (example: { name: string; description: string }) => string;
+  // English strings looked up without a translation, for reporting
+  missing: Set<string>;
+}
+
+export function listLocales(baseDir: string): string[] {
+  const localesDir = path.join(baseDir, "locales");
+  if (!fs.existsSync(localesDir)) return [];
+  return fs
+    .readdirSync(localesDir)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => file.replace(/\.json$/, ""))
+    .sort();
+}
+
+export function loadCatalogue(baseDir: string, locale: string): Catalogue {
+  const cataloguePath = path.join(baseDir, "locales", `${locale}.json`);
+  if (!fs.existsSync(cataloguePath)) {
+    throw new Error(`No translation catalogue for locale "${locale}" (expected locales/${locale}.json)`);
+  }
+  const catalogue = JSON.parse(fs.readFileSync(cataloguePath, "utf-8"));
+  for (const section of ["strings", "examples"]) {
+    const entries = catalogue[section] ?? {};
+    if (typeof entries !== "object" || Object.values(entries).some((value) => typeof value !== "string")) {
+      throw new Error(`locales/${locale}.json: "${section}" must map strings to strings`);
+    }
+  }
+  return { strings: catalogue.strings ?? {}, examples: catalogue.examples ?? {} };
+}
+
+/**
+ * Translator for a catalogue; without one (the default locale) every string is returned as written
+ */
+export function createTranslator(catalogue?: Catalogue): Translator {
+  const missing = new Set<string>();
+  const fill = (text: string, values: Record<string, string> = {}) =>
+    text.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+
+  return {
+    t: (text, values) => {
+      const translated = catalogue?.strings[text];
+      if (catalogue && translated === undefined) missing.add(text);
+      return fill(translated ?? text, values);
+    },
+    description: (example) => {
+      const translated = catalogue?.examples[example.name];
+      if (catalogue && translated === undefined) missing.add(`description of ${example.name}`);
+      return translated ?? example.description;
+    },
+    missing,
+  };
+}
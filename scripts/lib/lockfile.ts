@@ -0,0 +1,120 @@
+/**
+ * Lockfile written into scaffolded projects
+ *
+ * Records which hub version generated the project and the hash and content of every generated file, so `diff` and
+ * `upgrade` can tell upstream changes apart from local edits and merge the two.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { mergeLines } from "./diff";
+
+export const LOCKFILE = "fhevm-hub.lock.json";
+
+export interface HubLock {
+  hubVersion: string;
+  hubCommit?: string;
+  projectName: string;
+  examples: string[];
+  packageManager: string;
+  networks: string[];
+  // sha256 of each generated file, keyed by path relative to the project root
+  files: Record<string, string>;
+  // Content of each generated file, the base of the three-way merge (absent in lockfiles from older hubs)
+  base?: Record<string, string>;
+}
+
+export function hashContent(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+export function readLock(projectDir: string): HubLock {
+  const lockPath = path.join(projectDir, LOCKFILE);
+  if (!fs.existsSync(lockPath)) {
+    throw new Error(`${LOCKFILE} not found in ${projectDir}`);
+  }
+  const lock = JSON.parse(fs.readFileSync(lockPath, "utf-8")) as HubLock;
+  if (
+    typeof lock.hubVersion !== "string" ||
+    !Array.isArray(lock.examples) ||
+    typeof lock.files !== "object" ||
+    (lock.base !== undefined && typeof lock.base !== "object")
+  ) {
+    throw new Error(`${lockPath} is not a valid lockfile`);
+  }
+  return lock;
+}
+
+export function writeLock(projectDir: string, lock: HubLock): void {
+  fs.writeFileSync(path.join(projectDir, LOCKFILE), JSON.stringify(lock, null, 2) + "\n");
+}
+
+/**
+ * What upgrade does with a file:
+ * - "none": nothing changed upstream (local edits, if any, are kept)
+ * - "update" / "add" / "remove": upstream changed and the local copy is untouched, so the change is applied
+ * - "merge": both sides changed different lines; upstream's changes are merged into the local copy
+ * - "in-sync": the local copy already matches upstream
+ * - "conflict": both sides changed the same lines; the local copy is left alone
+ */
+export type UpgradeAction = "none" | "update" | "add" | "remove" | "merge" | "in-sync" | "conflict";
+
+export interface FileStatus {
+  path: string;
+  action: UpgradeAction;
+  upstreamChanged: boolean;
+  locallyModified: boolean;
+  // New content of the file for "merge"
+  merged?: string;
+  // 1-based base line ranges changed on both sides, for "conflict" (empty when the base content is unknown)
+  conflicts?: Array<[number, number]>;
+}
+
+/**
+ * Three-way comparison of every file between the lockfile (base), the project on disk (local)
+ * and a fresh render from the hub (upstream). Files in `unavailable` could not be rendered this time,
+ * so they are treated as unchanged upstream rather than removed.
+ */
+export function planUpgrade(
+  lock: HubLock,
+  upstream: Record<string, string>,
+  readLocal: (file: string) => string | undefined,
+  unavailable: string[] = [],
+): FileStatus[] {
+  const paths = [...new Set([...Object.keys(lock.files), ...Object.keys(upstream)])].sort();
+
+  return paths.map((file): FileStatus => {
+    const baseHash = lock.files[file];
+    const localContent = readLocal(file);
+    const localHash = localContent === undefined ? undefined : hashContent(localContent);
+    const upstreamHash = upstream[file] === undefined ? undefined : hashContent(upstream[file]);
+
+    const upstreamChanged = upstreamHash !== baseHash && !unavailable.includes(file);
+    const locallyModified = localHash !== baseHash;
+
+    if (!upstreamChanged) {
+      return { path: file, action: "none", upstreamChanged, locallyModified };
+    } else if (localHash === upstreamHash) {
+      return { path: file, action: "in-sync", upstreamChanged, locallyModified };
+    } else if (!locallyModified) {
+      const action: UpgradeAction = upstreamHash === undefined ? "remove" : baseHash === undefined ? "add" : "update";
+      return { path: file, action, upstreamChanged, locallyModified };
+    }
+
+    // Both sides changed: merge line by line when the base content is known and both still have the file
+    const baseContent = lock.base?.[file];
+    if (
+      baseContent === undefined ||
+      hashContent(baseContent) !== baseHash ||
+      localContent === undefined ||
+      upstream[file] === undefined
+    ) {
+      return { path: file, action: "conflict", upstreamChanged, locallyModified, conflicts: [] };
+    }
+    const { content, conflicts } = mergeLines(baseContent, localContent, upstream[file]);
+    return content === undefined
+      ? { path: file, action: "conflict", upstreamChanged, locallyModified, conflicts }
+      : { path: file, action: "merge", upstreamChanged, locallyModified, merged: content };
+  });
+}
@@ -0,0 +1,193 @@
+/**
+ * NatSpec documentation from the solc userdoc/devdoc output in Hardhat build artifacts
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { stripComments } from "./solidity";
+
+interface AbiParameter {
+  name: string;
+  type: string;
+  internalType?: string;
+  indexed?: boolean;
+  components?: AbiParameter[];
+}
+
+interface AbiFragment {
+  type: string;
+  name?: string;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+  stateMutability?: string;
+}
+
+// userdoc/devdoc entry of a method, event or the contract itself; custom tags appear as "custom:<name>" keys
+interface DocEntry {
+  notice?: string;
+  details?: string;
+  params?: Record<string, string>;
+  returns?: Record<string, string>;
+  [tag: string]: unknown;
+}
+
+interface ContractOutput {
+  abi: AbiFragment[];
+  devdoc?: DocEntry & {
+    title?: string;
+    author?: string;
+    methods?: Record<string, DocEntry>;
+    events?: Record<string, DocEntry>;
+  };
+  userdoc?: DocEntry & { methods?: Record<string, DocEntry>; events?: Record<string, DocEntry> };
+  metadata?: string;
+}
+
+export interface ParamDoc {
+  name: string;
+  type: string;
+  description?: string;
+}
+
+export interface MemberDoc {
+  name: string;
+  // Human-readable signature with Solidity types and parameter names, e.g. "transfer(address to, externalEuint64 amount, bytes inputProof)"
+  signature: string;
+  stateMutability?: string;
+  notice?: string;
+  details?: string;
+  params: ParamDoc[];
+  returns: ParamDoc[];
+  // Custom tags without the "custom:" prefix, e.g. { concept: "..." }
+  custom: Record<string, string>;
+}
+
+export interface ContractDoc {
+  name: string;
+  title?: string;
+  author?: string;
+  notice?: string;
+  details?: string;
+  custom: Record<string, string>;
+  constructorDoc?: MemberDoc;
+  functions: MemberDoc[];
+  events: MemberDoc[];
+}
+
+/**
+ * Collapse the line breaks and indentation solc keeps in multi-line tags
+ */
+function clean(text: unknown): string | undefined {
+  return typeof text === "string" ? text.replace(/\s+/g, " ").trim() : undefined;
+}
+
+function customTags(entry: DocEntry | undefined): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (const [key, value] of Object.entries(entry || {})) {
+    if (key.startsWith("custom:")) {
+      tags[key.slice("custom:".length)] = clean(value) ?? "";
+    }
+  }
+  return tags;
+}
+
+/**
+ * Canonical ABI type used in userdoc/devdoc keys, e.g. "(uint256,address)[]" for a struct array
+ */
+function canonicalType(param: AbiParameter): string {
+  if (param.type.startsWith("tuple")) {
+    return `(${(param.components || []).map(canonicalType).join(",")})${param.type.slice("tuple".length)}`;
+  }
+  return param.type;
+}
+
+/**
+ * Solidity type as written in the source (externalEuint64 rather than bytes32, MyStruct rather than tuple)
+ */
+function solidityType(param: AbiParameter): string {
+  return (param.internalType || param.type).replace(/^(contract|struct|enum) /, "");
+}
+
+function paramDocs(params: AbiParameter[] = [], descriptions: Record<string, string> = {}): ParamDoc[] {
+  return params.map((param, index) => ({
+    name: param.name,
+    type: solidityType(param),
+    description: clean(descriptions[param.name || `_${index}`]),
+  }));
+}
+
+function memberDoc(fragment: AbiFragment, dev: DocEntry = {}, user: DocEntry = {}): MemberDoc {
+  const params = (fragment.inputs || [])
+    .map((param) => [solidityType(param), param.indexed ? "indexed" : "", param.name].filter((p) => p).join(" "))
+    .join(", ");
+  const name = fragment.name ?? fragment.type;
+  return {
+    name,
+    signature: `${name}(${params})`,
+    ...(fragment.stateMutability ? { stateMutability: fragment.stateMutability } : {}),
+    notice: clean(user.notice),
+    details: clean(dev.details),
+    params: paramDocs(fragment.inputs, dev.params),
+    returns: paramDocs(fragment.outputs, dev.returns),
+    custom: customTags(dev),
+  };
+}
+
+/**
+ * Position of a member's declaration in the source; the ABI lists members alphabetically rather than as written
+ */
+function declarationIndex(code: string, member: MemberDoc): number {
+  const { name } = member;
+  const match = new RegExp(
+    `\\b(?:function|event)\\s+${name}\\s*\\(|\\bpublic\\s+(?:constant\\s+|immutable\\s+)?${name}\\b`,
+  ).exec(code);
+  return match ? match.index : Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * Documentation of every contract declared in contracts/<contractFile>, from the build-info the artifact points at,
+ * with members in source order.
+ * Throws if the contracts have not been compiled.
+ */
+export function loadContractDocs(baseDir: string, contractFile: string): ContractDoc[] {
+  const contractName = path.basename(contractFile, ".sol");
+  const dbgPath = path.join(baseDir, "artifacts", "contracts", contractFile, `${contractName}.dbg.json`);
+  if (!fs.existsSync(dbgPath)) {
+    throw new Error(`Artifact not found at ${dbgPath}. Run "npm run compile" first.`);
+  }
+  const buildInfoPath = path.resolve(path.dirname(dbgPath), JSON.parse(fs.readFileSync(dbgPath, "utf-8")).buildInfo);
+  const buildInfo = JSON.parse(fs.readFileSync(buildInfoPath, "utf-8"));
+  const sourceName = `contracts/${contractFile}`;
+  const contracts: Record<string, ContractOutput> = buildInfo.output.contracts[sourceName] || {};
+  const code = stripComments(fs.readFileSync(path.join(baseDir, "contracts", contractFile), "utf-8"));
+  const byDeclaration = (a: MemberDoc, b: MemberDoc) => declarationIndex(code, a) - declarationIndex(code, b);
+
+  return Object.entries(contracts).map(([name, output]) => {
+    // hardhat-deploy adds devdoc/userdoc to the output selection; otherwise they are only in the metadata
+    const metadataOutput = output.metadata ? JSON.parse(output.metadata).output : {};
+    const devdoc = output.devdoc ?? metadataOutput.devdoc ?? {};
+    const userdoc = output.userdoc ?? metadataOutput.userdoc ?? {};
+    const key = (fragment: AbiFragment) => `${fragment.name}(${(fragment.inputs || []).map(canonicalType).join(",")})`;
+
+    const constructorFragment = output.abi.find((f) => f.type === "constructor");
+    return {
+      name,
+      title: clean(devdoc.title),
+      author: clean(devdoc.author),
+      notice: clean(userdoc.notice),
+      details: clean(devdoc.details),
+      custom: customTags(devdoc),
+      constructorDoc: constructorFragment
+        ? memberDoc(constructorFragment, devdoc.methods?.constructor, userdoc.methods?.constructor)
+        : undefined,
+      functions: output.abi
+        .filter((f) => f.type === "function")
+        .map((f) => memberDoc(f, devdoc.methods?.[key(f)], userdoc.methods?.[key(f)]))
+        .sort(byDeclaration),
+      events: output.abi
+        .filter((f) => f.type === "event")
+        .map((f) => memberDoc(f, devdoc.events?.[key(f)], userdoc.events?.[key(f)]))
+        .sort(byDeclaration),
+    };
+  });
+}
@@ -0,0 +1,176 @@
+/**
+ * Example registry
+ *
+ * Each example is described by a manifest at examples/<name>/example.json.
+ * The registry is discovered at startup and validated against ExampleDefinition.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { parseConstructorParams } from "./solidity";
+
+export const EXAMPLE_CATEGORIES = ["basic", "encryption", "access-control", "advanced", "anti-pattern"] as const;
+
+export type ExampleCategory = (typeof EXAMPLE_CATEGORIES)[number];
+
+// A constructor argument: a JSON literal, or the address of another contract deployed by the project
+export type ConstructorArg = string | number | boolean | { deployment: string };
+
+// Example definitions with metadata for documentation
+export interface ExampleDefinition {
+  name: string;
+  description: string;
+  category: ExampleCategory;
+  contractFile: string;
+  concepts: string[];
+  constructorArgs?: ConstructorArg[];
+}
+
+export const MANIFEST_FILE = "example.json";
+
+/**
+ * Validate a parsed manifest and return the problems found (empty when valid)
+ */
+export function validateManifest(manifest: unknown, contractsDir: string): string[] {
+  if (typeof manifest !== "object" || manifest === null || Array.isArray(manifest)) {
+    return ["manifest must be a JSON object"];
+  }
+
+  const problems: string[] = [];
+  const m = manifest as Record<string, unknown>;
+
+  for (const field of ["name", "description", "contractFile"]) {
+    if (typeof m[field] !== "string" || (m[field] as string).trim() === "") {
+      problems.push(`"${field}" must be a non-empty string`);
+    }
+  }
+
+  if (!EXAMPLE_CATEGORIES.includes(m.category as ExampleCategory)) {
+    problems.push(`"category" must be one of: ${EXAMPLE_CATEGORIES.join(", ")} (got ${JSON.stringify(m.category)})`);
+  }
+
+  if (!Array.isArray(m.concepts) || m.concepts.some((c) => typeof c !== "string")) {
+    problems.push(`"concepts" must be an array of strings`);
+  }
+
+  if (m.constructorArgs !== undefined) {
+    const isArg = (arg: unknown) =>
+      ["string", "number", "boolean"].includes(typeof arg) ||
+      (typeof arg === "object" &&
+        arg !== null &&
+        typeof (arg as { deployment?: unknown }).deployment === "string" &&
+        Object.keys(arg).length === 1);
+    if (!Array.isArray(m.constructorArgs) || !m.constructorArgs.every(isArg)) {
+      problems.push(
+        `"constructorArgs" must be an array of strings, numbers, booleans or { "deployment": "<Contract>" }`,
+      );
+    }
+  }
+
+  const allowed = new Set(["name", "description", "category", "contractFile", "concepts", "constructorArgs"]);
+  for (const key of Object.keys(m)) {
+    if (!allowed.has(key)) {
+      problems.push(`unknown field "${key}"`);
+    }
+  }
+
+  if (typeof m.contractFile === "string" && m.contractFile !== "") {
+    if (!m.contractFile.endsWith(".sol")) {
+      problems.push(`"contractFile" must be a .sol file (got "${m.contractFile}")`);
+    } else if (!fs.existsSync(path.join(contractsDir, m.contractFile))) {
+      problems.push(`"contractFile" not found: contracts/${m.contractFile}`);
+    } else if (Array.isArray(m.constructorArgs) || m.constructorArgs === undefined) {
+      // Scaffolded deploy scripts pass constructorArgs as-is, so they must match the constructor
+      const params = parseConstructorParams(fs.readFileSync(path.join(contractsDir, m.contractFile), "utf-8"));
+      const argCount = m.constructorArgs?.length ?? 0;
+      if (params.length !== argCount) {
+        problems.push(
+          `"constructorArgs" has ${argCount} value(s) but constructor(${params.join(", ")}) takes ${params.length}`,
+        );
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Discover and validate every examples/<name>/example.json under baseDir.
+ * Throws a single error listing every problem so the CLI can fail loudly.
+ */
+export function loadExampleRegistry(baseDir: string): ExampleDefinition[] {
+  const examplesDir = path.join(baseDir, "examples");
+  const contractsDir = path.join(baseDir, "contracts");
+
+  if (!fs.existsSync(examplesDir)) {
+    throw new Error(`Examples directory not found: ${examplesDir}`);
+  }
+
+  const problems: string[] = [];
+  const examples: ExampleDefinition[] = [];
+  const seen = new Map<string, string>();
+
+  const entries = fs
+    .readdirSync(examplesDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+
+  for (const dir of entries) {
+    const manifestPath = path.join("examples", dir, MANIFEST_FILE);
+    const absoluteManifestPath = path.join(baseDir, manifestPath);
+
+    if (!fs.existsSync(absoluteManifestPath)) {
+      problems.push(`${manifestPath}: missing manifest`);
+      continue;
+    }
+
+    let manifest: unknown;
+    try {
+      manifest = JSON.parse(fs.readFileSync(absoluteManifestPath, "utf-8"));
+    } catch (error) {
+      problems.push(`${manifestPath}: invalid JSON (${error instanceof Error ? error.message : String(error)})`);
+      continue;
+    }
+
+    const manifestProblems = validateManifest(manifest, contractsDir);
+    if (manifestProblems.length > 0) {
+      problems.push(...manifestProblems.map((p) => `${manifestPath}: ${p}`));
+      continue;
+    }
+
+    const example = manifest as ExampleDefinition;
+    const duplicateOf = seen.get(example.name);
+    if (duplicateOf) {
+      problems.push(`${manifestPath}: duplicate example name "${example.name}" (already defined in ${duplicateOf})`);
+      continue;
+    }
+    seen.set(example.name, manifestPath);
+    examples.push(example);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid example registry:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+  }
+
+  // Stable order: by category, then by name
+  return examples.sort(
+    (a, b) =>
+      EXAMPLE_CATEGORIES.indexOf(a.category) - EXAMPLE_CATEGORIES.indexOf(b.category) || a.name.localeCompare(b.name),
+  );
+}
+
+/**
+ * Rewrite the manifest that declares example.name with the given definition
+ */
+export function writeManifest(baseDir: string, example: ExampleDefinition): string {
+  const examplesDir = path.join(baseDir, "examples");
+  for (const dir of fs.readdirSync(examplesDir).sort()) {
+    const manifestPath = path.join(examplesDir, dir, MANIFEST_FILE);
+    if (fs.existsSync(manifestPath) && JSON.parse(fs.readFileSync(manifestPath, "utf-8")).name === example.name) {
+      fs.writeFileSync(manifestPath, JSON.stringify(example, null, 2) + "\n");
+      return manifestPath;
+    }
+  }
+  throw new Error(`No manifest declares example "${example.name}"`);
+}
@@ -0,0 +1,273 @@
+/**
+ * Static HTML documentation site
+ *
+ * Every page is self-contained apart from a shared stylesheet and uses relative links,
+ * so the output can be opened from disk or served from any internal host without network access.
+ */
+
+import { EXAMPLE_CATEGORIES, ExampleDefinition } from "./registry";
+import { ContractDoc, MemberDoc, ParamDoc } from "./natspec";
+import { escapeHtml, highlight } from "./highlight";
+import { TestCase, matchTestCases, parseTestCases } from "./snippets";
+
+export interface SiteExample {
+  example: ExampleDefinition;
+  source: string;
+  // Contents of test/<Contract>.ts, when the example has one
+  test?: string;
+  contracts: ContractDoc[];
+  // Names of related examples, most related first
+  related: string[];
+}
+
+const CATEGORY_TITLES: Record<string, string> = {
+  basic: "Basic",
+  encryption: "Encryption",
+  "access-control": "Access Control",
+  advanced: "Advanced",
+  "anti-pattern": "Anti-Patterns",
+};
+
+const STYLESHEET = `* { box-sizing: border-box; }
+body { margin: 0; font-family: -apple-system, "Segoe UI", Roboto, sans-serif; color: #1f2328; display: flex; }
+a { color: #0969da; text-decoration: none; }
+a:hover { text-decoration: underline; }
+nav { width: 260px; min-height: 100vh; padding: 1.5rem 1rem; background: #f6f8fa; border-right: 1px solid #d0d7de; flex-shrink: 0; }
+nav h2 { font-size: 0.8rem; text-transform: uppercase; color: #656d76; margin: 1.25rem 0 0.4rem; }
+nav ul { list-style: none; padding: 0; margin: 0; }
+nav li a { display: block; padding: 0.2rem 0.5rem; border-radius: 4px; }
+nav li a.current { background: #ddf4ff; font-weight: 600; }
+main { padding: 2rem 3rem; max-width: 1000px; min-width: 0; }
+h1 { margin-top: 0; }
+h3 code { font-size: 0.95rem; }
+.tags a { display: inline-block; margin: 0 0.3rem 0.3rem 0; padding: 0.1rem 0.5rem; border-radius: 1rem; background: #ddf4ff; font-size: 0.85rem; }
+.category { color: #656d76; }
+table { border-collapse: collapse; margin: 0.5rem 0 1rem; }
+th, td { border: 1px solid #d0d7de; padding: 0.3rem 0.6rem; text-align: left; }
+pre { background: #f6f8fa; border: 1px solid #d0d7de; border-radius: 6px; padding: 1rem; overflow-x: auto; font-size: 0.85rem; line-height: 1.45; }
+blockquote { margin: 0.5rem 0; padding-left: 1rem; border-left: 3px solid #d0d7de; color: #656d76; }
+.tok-comment { color: #6e7781; font-style: italic; }
+.tok-string { color: #0a3069; }
+.tok-number { color: #0550ae; }
+.tok-keyword { color: #cf222e; }
+.tok-type { color: #8250df; }
+.tok-function { color: #6639ba; }
+`;
+
+/**
+ * File-name-safe form of a concept, e.g. "FHE.allowThis" -> "fhe-allowthis"
+ */
+export function conceptSlug(concept: string): string {
+  return concept
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+function categoryTitle(category: string): string {
+  return CATEGORY_TITLES[category] ?? category;
+}
+
+function layout(title: string, root: string, nav: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} · FHEVM Examples</title>
+<link rel="stylesheet" href="${root}style.css">
+</head>
+<body>
+${nav}
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Sidebar listing every example grouped by category; `current` is highlighted
+ */
+function navigation(examples: SiteExample[], root: string, current?: string): string {
+  let html = `<nav>\n<a href="${root}index.html"><strong>FHEVM Examples</strong></a>\n`;
+  for (const category of EXAMPLE_CATEGORIES) {
+    const inCategory = examples.filter((e) => e.example.category === category);
+    if (inCategory.length === 0) continue;
+    html += `<h2>${categoryTitle(category)}</h2>\n<ul>\n`;
+    for (const { example } of inCategory) {
+      const className = example.name === current ? ` class="current"` : "";
+      html += `<li><a${className} href="${root}examples/${example.name}.html">${escapeHtml(example.name)}</a></li>\n`;
+    }
+    html += "</ul>\n";
+  }
+  html += `<h2>Reference</h2>\n<ul>\n<li><a href="${root}concepts/index.html">Concepts</a></li>\n</ul>\n</nav>`;
+  return html;
+}
+
+function conceptTags(concepts: string[], root: string): string {
+  const links = concepts.map(
+    (c) => `<a href="${root}concepts/${conceptSlug(c)}.html"><code>${escapeHtml(c)}</code></a>`,
+  );
+  return `<p class="tags">${links.join("")}</p>`;
+}
+
+function paramTable(heading: string, params: ParamDoc[]): string {
+  if (params.length === 0) return "";
+  const rows = params.map(
+    (p) =>
+      `<tr><td><code>${escapeHtml(p.name || "-")}</code></td><td><code>${escapeHtml(p.type)}</code></td>` +
+      `<td>${escapeHtml(p.description ?? "")}</td></tr>`,
+  );
+  return `<table>\n<tr><th>${heading}</th><th>Type</th><th>Description</th></tr>\n${rows.join("\n")}\n</table>\n`;
+}
+
+function customTagList(author: string | undefined, custom: Record<string, string>): string {
+  const items = Object.entries(custom).map(
+    ([tag, value]) => `<li><strong>@custom:${escapeHtml(tag)}</strong> ${escapeHtml(value)}</li>`,
+  );
+  if (author) items.unshift(`<li><strong>@author</strong> ${escapeHtml(author)}</li>`);
+  return items.length > 0 ? `<ul>\n${items.join("\n")}\n</ul>\n` : "";
+}
+
+function memberSection(member: MemberDoc, tests: TestCase[] = []): string {
+  const mutability =
+    member.stateMutability && member.stateMutability !== "nonpayable" ? ` ${member.stateMutability}` : "";
+  let html = `<h3><code>${escapeHtml(member.signature + mutability)}</code></h3>\n`;
+  if (member.notice) html += `<p>${escapeHtml(member.notice)}</p>\n`;
+  if (member.details) html += `<blockquote>${escapeHtml(member.details)}</blockquote>\n`;
+  html += paramTable("Parameter", member.params);
+  html += paramTable("Returns", member.returns);
+  html += customTagList(undefined, member.custom);
+  for (const test of tests) {
+    html += `<p><strong>Usage</strong> - <em>${escapeHtml(test.title)}</em></p>\n`;
+    html += `<pre><code>${highlight(test.code, "typescript")}</code></pre>\n`;
+  }
+  return html;
+}
+
+function contractSection(contract: ContractDoc, tests: Map<string, TestCase[]> = new Map()): string {
+  let html = `<h2>API: ${escapeHtml(contract.name)}</h2>\n`;
+  if (contract.title) html += `<p><strong>${escapeHtml(contract.title)}</strong></p>\n`;
+  if (contract.notice) html += `<p>${escapeHtml(contract.notice)}</p>\n`;
+  if (contract.details) html += `<blockquote>${escapeHtml(contract.details)}</blockquote>\n`;
+  html += customTagList(contract.author, contract.custom);
+  if (contract.constructorDoc) html += memberSection(contract.constructorDoc);
+  html += contract.functions.map((f) => memberSection(f, tests.get(f.name))).join("");
+  if (contract.events.length > 0) {
+    html += `<h2>Events: ${escapeHtml(contract.name)}</h2>\n`;
+    html += contract.events.map((e) => memberSection(e)).join("");
+  }
+  return html;
+}
+
+function examplePage(entry: SiteExample, examples: SiteExample[]): string {
+  const { example } = entry;
+  const root = "../";
+  const contractName = example.contractFile.replace(".sol", "");
+  const describe = (name: string) => examples.find((e) => e.example.name === name)?.example.description ?? "";
+
+  let body = `<h1>${escapeHtml(contractName)}</h1>\n`;
+  body += `<p>${escapeHtml(example.description)}</p>\n`;
+  body += `<p class="category">Category: ${categoryTitle(example.category)}</p>\n`;
+  body += conceptTags(example.concepts, root);
+
+  // The example contract first, then anything else declared in the same file
+  const contracts = [...entry.contracts].sort(
+    (a, b) => Number(b.name === contractName) - Number(a.name === contractName),
+  );
+  const testCases = entry.test ? parseTestCases(entry.test) : [];
+  body += contracts
+    .map((contract) =>
+      contractSection(
+        contract,
+        contract.name === contractName ? matchTestCases(testCases, contract.functions) : undefined,
+      ),
+    )
+    .join("");
+
+  body += `<h2>Source Code</h2>\n<pre><code>${highlight(entry.source, "solidity")}</code></pre>\n`;
+  if (entry.test !== undefined) {
+    body += `<h2>Tests</h2>\n<pre><code>${highlight(entry.test, "typescript")}</code></pre>\n`;
+  }
+
+  if (entry.related.length > 0) {
+    body += `<h2>Related Examples</h2>\n<ul>\n`;
+    for (const name of entry.related) {
+      body += `<li><a href="${name}.html">${escapeHtml(name)}</a> - ${escapeHtml(describe(name))}</li>\n`;
+    }
+    body += "</ul>\n";
+  }
+
+  return layout(contractName, root, navigation(examples, root, example.name), body);
+}
+
+function indexPage(examples: SiteExample[]): string {
+  let body = "<h1>FHEVM Examples</h1>\n";
+  for (const category of EXAMPLE_CATEGORIES) {
+    const inCategory = examples.filter((e) => e.example.category === category);
+    if (inCategory.length === 0) continue;
+    body += `<h2>${categoryTitle(category)}</h2>\n<table>\n<tr><th>Example</th><th>Description</th></tr>\n`;
+    for (const { example } of inCategory) {
+      body += `<tr><td><a href="examples/${example.name}.html">${escapeHtml(example.name)}</a></td>`;
+      body += `<td>${escapeHtml(example.description)}</td></tr>\n`;
+    }
+    body += "</table>\n";
+  }
+  return layout("Examples", "", navigation(examples, ""), body);
+}
+
+function conceptIndexPage(concepts: Map<string, SiteExample[]>, examples: SiteExample[]): string {
+  const root = "../";
+  let body = "<h1>Concepts</h1>\n<table>\n<tr><th>Concept</th><th>Examples</th></tr>\n";
+  for (const [concept, using] of concepts) {
+    body += `<tr><td><a href="${conceptSlug(concept)}.html"><code>${escapeHtml(concept)}</code></a></td>`;
+    body += `<td>${using.length}</td></tr>\n`;
+  }
+  body += "</table>\n";
+  return layout("Concepts", root, navigation(examples, root), body);
+}
+
+function conceptPage(concept: string, using: SiteExample[], examples: SiteExample[]): string {
+  const root = "../";
+  let body = `<h1><code>${escapeHtml(concept)}</code></h1>\n<p>Examples teaching this concept:</p>\n<ul>\n`;
+  for (const { example } of using) {
+    body += `<li><a href="${root}examples/${example.name}.html">${escapeHtml(example.name)}</a>`;
+    body += ` (${categoryTitle(example.category)}) - ${escapeHtml(example.description)}</li>\n`;
+  }
+  body += "</ul>\n";
+  return layout(concept, root, navigation(examples, root), body);
+}
+
+/**
+ * Render the whole site, keyed by path relative to the output directory
+ */
+export function renderSite(examples: SiteExample[]): Record<string, string> {
+  const files: Record<string, string> = {
+    "style.css": STYLESHEET,
+    "index.html": indexPage(examples),
+  };
+
+  // Concepts are grouped case-insensitively under the first spelling seen
+  const concepts = new Map<string, SiteExample[]>();
+  const spelling = new Map<string, string>();
+  for (const entry of examples) {
+    for (const concept of entry.example.concepts) {
+      const key = conceptSlug(concept);
+      if (!spelling.has(key)) spelling.set(key, concept);
+      const name = spelling.get(key)!;
+      concepts.set(name, [...(concepts.get(name) || []), entry]);
+    }
+  }
+  const sortedConcepts = new Map([...concepts].sort(([a], [b]) => a.localeCompare(b)));
+
+  files["concepts/index.html"] = conceptIndexPage(sortedConcepts, examples);
+  for (const [concept, using] of sortedConcepts) {
+    files[`concepts/${conceptSlug(concept)}.html`] = conceptPage(concept, using, examples);
+  }
+  for (const entry of examples) {
+    files[`examples/${entry.example.name}.html`] = examplePage(entry, examples);
+  }
+  return files;
+}
@@ -0,0 +1,105 @@
+/**
+ * Test snippets for the docs: the it(...) blocks of test/<Contract>.ts that exercise each contract function
+ *
+ * A test is matched to a function by a marker comment, `// @docs <function>[, <function>...]`, placed inside the
+ * it(...) block or on the line above it. Functions without a marked test fall back to the first test calling them.
+ */
+
+export interface TestCase {
+  title: string;
+  // The whole it(...) block, dedented
+  code: string;
+  // Names of the methods called in the block, e.g. ["createEncryptedInput", "add64", "transfer"]
+  calls: string[];
+  // Functions named by @docs markers
+  docsFor: string[];
+}
+
+const MARKER = /\/\/[ \t]*@docs[ \t]+([\w \t,]+)/g;
+
+function dedent(code: string): string {
+  const lines = code.split("\n");
+  const indents = lines
+    .slice(1)
+    .filter((l) => l.trim() !== "")
+    .map((l) => l.match(/^ */)![0].length);
+  const indent = Math.min(...indents, Infinity);
+  return [lines[0], ...lines.slice(1).map((l) => l.slice(Math.min(indent, l.match(/^ */)![0].length)))].join("\n");
+}
+
+function markerNames(text: string): string[] {
+  return [...text.matchAll(MARKER)].flatMap((m) => m[1].split(/[\s,]+/).filter((name) => name !== ""));
+}
+
+/**
+ * Every it(...) block of a test file, in file order
+ */
+export function parseTestCases(source: string): TestCase[] {
+  const cases: TestCase[] = [];
+  const itPattern = /^([ \t]*)it\(\s*(["'`])(.*?)\2\s*,/gm;
+
+  for (const match of source.matchAll(itPattern)) {
+    const start = (match.index ?? 0) + match[1].length;
+    const bodyStart = source.indexOf("{", start);
+    if (bodyStart === -1) continue;
+
+    let depth = 0;
+    let end = -1;
+    for (let i = bodyStart; i < source.length; i++) {
+      if (source[i] === "{") depth++;
+      if (source[i] === "}") depth--;
+      if (depth === 0) {
+        end = i;
+        break;
+      }
+    }
+    if (end === -1) continue;
+
+    // Include the closing "});" of the it(...) call
+    const close = source.slice(end).match(/^\}\s*\)\s*;?/);
+    const block = source.slice(start, end + (close ? close[0].length : 1));
+
+    // A marker may sit on the line directly above the it(...)
+    const lineAbove = source.slice(0, match.index).trimEnd().split("\n").pop() || "";
+
+    cases.push({
+      title: match[3],
+      code: dedent(block),
+      calls: [...new Set([...block.matchAll(/\.(\w+)\s*\(/g)].map((m) => m[1]))],
+      docsFor: [...new Set([...markerNames(lineAbove), ...markerNames(block)])],
+    });
+  }
+  return cases;
+}
+
+/**
+ * Pick the tests to show next to each function: every test marked for it, otherwise the first test calling it.
+ * Tests expecting a revert come last, and for view functions, tests that only read state are preferred over
+ * tests that call them to check a transaction.
+ */
+export function matchTestCases(
+  cases: TestCase[],
+  functions: { name: string; stateMutability?: string }[],
+): Map<string, TestCase[]> {
+  const isView = (name: string) =>
+    functions.some((f) => f.name === name && (f.stateMutability === "view" || f.stateMutability === "pure"));
+  const sendsTransaction = (testCase: TestCase) =>
+    testCase.calls.some((call) => functions.some((f) => f.name === call) && !isView(call));
+
+  const matches = new Map<string, TestCase[]>();
+  for (const { name } of functions) {
+    const marked = cases.filter((c) => c.docsFor.includes(name));
+    if (marked.length > 0) {
+      matches.set(name, marked);
+      continue;
+    }
+    const calling = cases.filter((c) => c.calls.includes(name));
+    const succeeding = calling.filter((c) => !/\.reverted/.test(c.code));
+    const first =
+      (isView(name) ? succeeding.find((c) => !sendsTransaction(c)) : undefined) ?? succeeding[0] ?? calling[0];
+    if (first) {
+      matches.set(name, [first]);
+    }
+  }
+  return matches;
+}
@@ -0,0 +1,425 @@
+/**
+ * Lightweight Solidity source helpers used by the Example Hub CLI
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Remove // and /* *\/ comments so they are not mistaken for code
+ */
+export function stripComments(source: string): string {
+  return source.replace(/\/\*[\s\S]*?\*\//g, "").replace(/\/\/.*$/gm, "");
+}
+
+/**
+ * Import paths declared in a Solidity source, in declaration order
+ */
+export function parseImports(source: string): string[] {
+  const imports: string[] = [];
+  const importPattern = /\bimport\s+(?:[^"';]*?\bfrom\s+)?["']([^"']+)["'][^;]*;/g;
+  const code = stripComments(source);
+  let match;
+  while ((match = importPattern.exec(code)) !== null) {
+    imports.push(match[1]);
+  }
+  return imports;
+}
+
+/**
+ * Resolve an import to a path relative to contractsDir, or undefined for package imports (e.g. @fhevm/solidity)
+ */
+function resolveLocalImport(importPath: string, importingFile: string, contractsDir: string): string | undefined {
+  let absolute: string;
+  if (importPath.startsWith("./") || importPath.startsWith("../")) {
+    absolute = path.resolve(path.dirname(path.join(contractsDir, importingFile)), importPath);
+  } else if (importPath.startsWith("contracts/")) {
+    absolute = path.resolve(contractsDir, "..", importPath);
+  } else {
+    return undefined;
+  }
+
+  const relative = path.relative(contractsDir, absolute);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    throw new Error(`Import "${importPath}" in contracts/${importingFile} resolves outside contracts/`);
+  }
+  return relative.split(path.sep).join("/");
+}
+
+/**
+ * Follow local imports from contractFile and return every contract file it needs,
+ * starting with contractFile itself. Paths are relative to contractsDir.
+ */
+export function resolveContractClosure(contractsDir: string, contractFile: string): string[] {
+  const closure: string[] = [];
+  const importedBy = new Map<string, string>();
+  const pending = [contractFile];
+
+  while (pending.length > 0) {
+    const file = pending.shift()!;
+    if (closure.includes(file)) continue;
+
+    const absolute = path.join(contractsDir, file);
+    if (!fs.existsSync(absolute)) {
+      const importer = importedBy.get(file);
+      throw new Error(
+        `Contract not found: contracts/${file}${importer ? ` (imported from contracts/${importer})` : ""}`,
+      );
+    }
+    closure.push(file);
+
+    for (const importPath of parseImports(fs.readFileSync(absolute, "utf-8"))) {
+      const local = resolveLocalImport(importPath, file, contractsDir);
+      if (local && !closure.includes(local)) {
+        if (!importedBy.has(local)) importedBy.set(local, file);
+        pending.push(local);
+      }
+    }
+  }
+
+  return closure;
+}
+
+export type ContractKind = "contract" | "abstract" | "library" | "interface";
+
+export interface ContractDefinition {
+  name: string;
+  kind: ContractKind;
+  bases: string[];
+}
+
+/**
+ * Top-level contract, library and interface definitions declared in a Solidity source
+ */
+export function parseContractDefinitions(source: string): ContractDefinition[] {
+  const definitions: ContractDefinition[] = [];
+  const definitionPattern =
+    /\b(abstract\s+contract|contract|library|interface)\s+([A-Za-z_]\w*)\s*(?:is\s+([^{]+))?\{/g;
+  const code = stripComments(source);
+  let match;
+  while ((match = definitionPattern.exec(code)) !== null) {
+    definitions.push({
+      name: match[2],
+      kind: match[1].startsWith("abstract") ? "abstract" : (match[1] as ContractKind),
+      bases: (match[3] || "")
+        .split(",")
+        .map((base) => base.trim().split(/[\s(]/)[0])
+        .filter((base) => base !== ""),
+    });
+  }
+  return definitions;
+}
+
+function normalizeParams(params: string): string[] {
+  return params
+    .split(",")
+    .map((param) => param.trim().replace(/\s+/g, " "))
+    .filter((param) => param !== "");
+}
+
+/**
+ * Parameter declarations of the constructor (e.g. ["uint256 _duration"]), empty when there is none
+ */
+export function parseConstructorParams(source: string): string[] {
+  const match = /\bconstructor\s*\(([^)]*)\)/.exec(stripComments(source));
+  if (!match) {
+    return [];
+  }
+  return normalizeParams(match[1]);
+}
+
+export interface FunctionDefinition {
+  name: string;
+  params: string[];
+  visibility: "external" | "public" | "internal" | "private";
+  stateMutability: "view" | "pure" | "payable" | "nonpayable";
+  returns: string[];
+}
+
+/**
+ * Function definitions declared in a Solidity source, in declaration order
+ */
+export function parseFunctions(source: string): FunctionDefinition[] {
+  const functions: FunctionDefinition[] = [];
+  const functionPattern = /\bfunction\s+([A-Za-z_]\w*)\s*\(([^)]*)\)([^{;]*)[{;]/g;
+  const code = stripComments(source);
+  let match;
+  while ((match = functionPattern.exec(code)) !== null) {
+    const modifiers = match[3];
+    const returns = /\breturns\s*\(([^)]*)\)/.exec(modifiers);
+    const beforeReturns = returns ? modifiers.slice(0, returns.index) : modifiers;
+    functions.push({
+      name: match[1],
+      params: normalizeParams(match[2]),
+      visibility: (/\b(external|public|internal|private)\b/.exec(beforeReturns)?.[1] ||
+        "public") as FunctionDefinition["visibility"],
+      stateMutability: (/\b(view|pure|payable)\b/.exec(beforeReturns)?.[1] ||
+        "nonpayable") as FunctionDefinition["stateMutability"],
+      returns: returns ? normalizeParams(returns[1]) : [],
+    });
+  }
+  return functions;
+}
+
+export interface EventDefinition {
+  name: string;
+  params: string[];
+}
+
+/**
+ * Event definitions declared in a Solidity source, in declaration order
+ */
+export function parseEvents(source: string): EventDefinition[] {
+  const events: EventDefinition[] = [];
+  const eventPattern = /\bevent\s+([A-Za-z_]\w*)\s*\(([^)]*)\)\s*;/g;
+  const code = stripComments(source);
+  let match;
+  while ((match = eventPattern.exec(code)) !== null) {
+    events.push({ name: match[1], params: normalizeParams(match[2]) });
+  }
+  return events;
+}
+
+// ebool, euintN, eintN, eaddress and their externalE* input forms
+const ENCRYPTED_TYPE_PATTERN = "(?:ebool|euint\\d+|eint\\d+|eaddress|externalE(?:bool|uint\\d+|int\\d+|address))";
+
+/**
+ * Encrypted types (ebool, euintN, eaddress and their externalE* input forms) referenced in a Solidity source, sorted
+ */
+export function parseEncryptedTypes(source: string): string[] {
+  const types = stripComments(source).match(new RegExp(`\\b${ENCRYPTED_TYPE_PATTERN}\\b`, "g"));
+  return [...new Set(types || [])].sort();
+}
+
+// FHE library functions that manage the ACL rather than compute on ciphertexts
+export const ACL_FUNCTIONS = [
+  "allow",
+  "allowThis",
+  "allowTransient",
+  "isAllowed",
+  "isSenderAllowed",
+  "makePubliclyDecryptable",
+  "isPubliclyDecryptable",
+];
+
+export interface FheUsage {
+  // FHE.* calls other than ACL calls, e.g. "FHE.add"
+  operations: string[];
+  // ACL calls, e.g. "FHE.allowThis"
+  aclCalls: string[];
+  // ebool, euintN, eintN, eaddress
+  encryptedTypes: string[];
+  // externalEbool, externalEuintN, ... (user input handles)
+  externalInputTypes: string[];
+}
+
+const COMPARISON_FUNCTIONS = ["eq", "ne", "lt", "le", "gt", "ge"];
+
+export interface FheCall {
+  // Function name without the FHE. prefix, e.g. "add"
+  name: string;
+  // Encrypted type the call operates on (e.g. "euint32"), when it can be inferred from declarations
+  operandType?: string;
+}
+
+/**
+ * Split the arguments of a call, given the source starting right after its opening parenthesis
+ */
+function splitCallArguments(code: string, start: number): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let current = start;
+  for (let i = start; i < code.length; i++) {
+    const char = code[i];
+    if (char === "(" || char === "[" || char === "{") depth++;
+    if (char === "]" || char === "}") depth--;
+    if (char === ")") {
+      if (depth === 0) {
+        args.push(code.slice(current, i).trim());
+        return args.filter((arg) => arg !== "");
+      }
+      depth--;
+    }
+    if (char === "," && depth === 0) {
+      args.push(code.slice(current, i).trim());
+      current = i + 1;
+    }
+  }
+  return args;
+}
+
+/**
+ * The encrypted type produced by FHE.asEuint32 / FHE.randEuint64 / ..., e.g. "euint32"
+ */
+function castTargetType(name: string): string | undefined {
+  const match = /^(?:as|rand)E(\w+)$/.exec(name);
+  return match ? `e${match[1].toLowerCase()}` : undefined;
+}
+
+/**
+ * Every FHE library call in a Solidity source, in order, with the encrypted type it operates on.
+ * Types are inferred from the nearest preceding declaration of the variable an argument refers to.
+ */
+export function parseFheCalls(source: string): FheCall[] {
+  const code = stripComments(source);
+
+  // name -> positions and types of its declarations (state variables, mappings, parameters, locals)
+  const declarations: { name: string; type: string; index: number }[] = [];
+  const declarationPattern = new RegExp(
+    `\\b(${ENCRYPTED_TYPE_PATTERN})(?:\\[\\d*\\])*(?:\\s+(?:memory|storage|calldata|private|public|internal|constant|immutable))*\\s+([A-Za-z_]\\w*)`,
+    "g",
+  );
+  const mappingPattern = new RegExp(
+    `\\bmapping\\s*\\([^;]*?\\b(${ENCRYPTED_TYPE_PATTERN})\\b[^;]*?\\)\\s*(?:(?:public|private|internal)\\s+)*([A-Za-z_]\\w*)\\s*;`,
+    "g",
+  );
+  for (const pattern of [declarationPattern, mappingPattern]) {
+    let match;
+    while ((match = pattern.exec(code)) !== null) {
+      declarations.push({ name: match[2], type: match[1], index: match.index });
+    }
+  }
+
+  const variableType = (name: string, index: number) =>
+    declarations.filter((d) => d.name === name && d.index < index).sort((a, b) => b.index - a.index)[0]?.type;
+
+  const expressionType = (expression: string, index: number): string | undefined => {
+    const call = /^FHE\.(\w+)\s*\(/.exec(expression);
+    if (call) {
+      const args = splitCallArguments(expression, call[0].length);
+      if (COMPARISON_FUNCTIONS.includes(call[1])) return "ebool";
+      return operandType(call[1], args, index);
+    }
+    if (expression.startsWith("(") && expression.endsWith(")")) {
+      return expressionType(expression.slice(1, -1).trim(), index);
+    }
+    // a, a[i], a[i][j], s.field, s[i].field: the last member names the declaration
+    const path = expression.replace(/\[[^\]]*\]/g, "");
+    if (/^[A-Za-z_][\w.]*$/.test(path)) {
+      return variableType(path.split(".").pop()!, index);
+    }
+    return undefined;
+  };
+
+  const operandType = (name: string, args: string[], index: number): string | undefined => {
+    const target = castTargetType(name);
+    if (target) return target;
+    if (name === "fromExternal") {
+      const external = args[0] ? expressionType(args[0], index) : undefined;
+      return external?.replace(/^externalE/, "e");
+    }
+    if (name === "select") return args[1] ? expressionType(args[1], index) : undefined;
+    for (const arg of args) {
+      const type = expressionType(arg, index);
+      if (type) return type;
+    }
+    return undefined;
+  };
+
+  const calls: FheCall[] = [];
+  const callPattern = /\bFHE\.([A-Za-z_]\w*)\s*\(/g;
+  let match;
+  while ((match = callPattern.exec(code)) !== null) {
+    const args = splitCallArguments(code, match.index + match[0].length);
+    const type = operandType(match[1], args, match.index);
+    calls.push({ name: match[1], ...(type ? { operandType: type } : {}) });
+  }
+  return calls;
+}
+
+/**
+ * Every FHE library call and encrypted type used by a Solidity source, each list sorted
+ */
+export function parseFheUsage(source: string): FheUsage {
+  const calls = new Set(parseFheCalls(source).map((call) => call.name));
+  const types = parseEncryptedTypes(source);
+  return {
+    operations: [...calls]
+      .filter((call) => !ACL_FUNCTIONS.includes(call))
+      .sort()
+      .map((call) => `FHE.${call}`),
+    aclCalls: [...calls]
+      .filter((call) => ACL_FUNCTIONS.includes(call))
+      .sort()
+      .map((call) => `FHE.${call}`),
+    encryptedTypes: types.filter((type) => !type.startsWith("external")),
+    externalInputTypes: types.filter((type) => type.startsWith("external")),
+  };
+}
+
+export interface AclGrant {
+  call: "allow" | "allowThis" | "allowTransient";
+  // Expression of the handle being shared, e.g. "_balances[to]"
+  handle: string;
+  // Address expression receiving access, e.g. "msg.sender"; "address(this)" for allowThis
+  grantee: string;
+}
+
+/**
+ * Bodies of the functions declared in a Solidity source, keyed by name ("constructor" for the constructor;
+ * overloads are concatenated)
+ */
+function functionBodies(code: string): Map<string, string> {
+  const bodies = new Map<string, string>();
+  const functionPattern = /\b(?:function\s+([A-Za-z_]\w*)|constructor)\s*\([^)]*\)[^{;]*\{/g;
+  let match;
+  while ((match = functionPattern.exec(code)) !== null) {
+    const name = match[1] ?? "constructor";
+    const start = match.index + match[0].length;
+    let depth = 1;
+    let end = start;
+    while (end < code.length && depth > 0) {
+      if (code[end] === "{") depth++;
+      if (code[end] === "}") depth--;
+      end++;
+    }
+    bodies.set(name, (bodies.get(name) ?? "") + code.slice(start, end - 1));
+  }
+  return bodies;
+}
+
+/**
+ * ACL grants made by each function, including those made by the internal functions it calls, in source order
+ */
+export function parseAclGrants(source: string): Map<string, AclGrant[]> {
+  const bodies = functionBodies(stripComments(source));
+
+  const grantsIn = (name: string, visited: Set<string>): AclGrant[] => {
+    visited.add(name);
+    const body = bodies.get(name) ?? "";
+    const found: { index: number; grants: AclGrant[] }[] = [];
+
+    const aclPattern = /\bFHE\.(allow|allowThis|allowTransient)\s*\(/g;
+    let match;
+    while ((match = aclPattern.exec(body)) !== null) {
+      const args = splitCallArguments(body, match.index + match[0].length);
+      const call = match[1] as AclGrant["call"];
+      if (args[0] && (call === "allowThis" || args[1])) {
+        found.push({
+          index: match.index,
+          grants: [{ call, handle: args[0], grantee: call === "allowThis" ? "address(this)" : args[1] }],
+        });
+      }
+    }
+
+    // Calls to other functions of the contract, e.g. _transfer(...)
+    const callPattern = /(?<![.\w])([A-Za-z_]\w*)\s*\(/g;
+    while ((match = callPattern.exec(body)) !== null) {
+      // Each call gets its own copy, so only recursion is cut off and a helper called twice is followed twice
+      if (bodies.has(match[1]) && !visited.has(match[1])) {
+        found.push({ index: match.index, grants: grantsIn(match[1], new Set(visited)) });
+      }
+    }
+
+    return found.sort((a, b) => a.index - b.index).flatMap((f) => f.grants);
+  };
+
+  const grants = new Map<string, AclGrant[]>();
+  for (const name of bodies.keys()) {
+    const functionGrants = grantsIn(name, new Set());
+    if (functionGrants.length > 0) {
+      grants.set(name, functionGrants);
+    }
+  }
+  return grants;
+}
@@ -0,0 +1,39 @@
+/**
+ * Minimal template renderer for the files under templates/
+ *
+ * Supports `{{NAME}}` substitution and line-level `{{#if NAME}} ... {{/if}}` blocks,
+ * which are kept when NAME is true or a non-empty string.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+export type TemplateVariables = Record<string, string | boolean>;
+
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  const withBlocks = template.replace(
+    /^\{\{#if (\w+)\}\}\n([\s\S]*?)^\{\{\/if\}\}\n/gm,
+    (_block, name: string, body: string) => {
+      if (!(name in variables)) {
+        throw new Error(`Unknown template variable in {{#if ${name}}}`);
+      }
+      return variables[name] === true || (typeof variables[name] === "string" && variables[name] !== "") ? body : "";
+    },
+  );
+
+  return withBlocks.replace(/\{\{(\w+)\}\}/g, (_placeholder, name: string) => {
+    const value = variables[name];
+    if (typeof value !== "string") {
+      throw new Error(`Missing value for template variable {{${name}}}`);
+    }
+    return value;
+  });
+}
+
+/**
+ * Render templates/<name>.tpl from the hub root
+ */
+export function renderTemplateFile(baseDir: string, name: string, variables: TemplateVariables): string {
+  const templatePath = path.join(baseDir, "templates", `${name}.tpl`);
+  return renderTemplate(fs.readFileSync(templatePath, "utf-8"), variables);
+}
@@ -0,0 +1,588 @@
+/**
+ * Test generation for `generate-tests`: one test per external function of a compiled contract, built from its ABI
+ *
+ * External params (externalEuintN / externalEbool / externalEaddress) are encrypted with the matching
+ * createEncryptedInput() builder, and every handle a function returns or stores is decrypted as alice. The expected
+ * clear value is asserted when the function stores a single FHE operation on its inputs; otherwise only its type is.
+ */
+
+// Minimal ABI shapes read from Hardhat artifacts
+export interface AbiParameter {
+  name: string;
+  type: string;
+  internalType?: string;
+  components?: AbiParameter[];
+}
+
+export interface AbiFragment {
+  type: string;
+  name?: string;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+  stateMutability?: string;
+}
+
+// Maps FHEVM external input types to the matching createEncryptedInput() builder method
+const ENCRYPTED_INPUT_METHODS: Record<string, string> = {
+  externalEbool: "addBool",
+  externalEuint8: "add8",
+  externalEuint16: "add16",
+  externalEuint32: "add32",
+  externalEuint64: "add64",
+  externalEuint128: "add128",
+  externalEuint256: "add256",
+  externalEaddress: "addAddress",
+};
+
+// Clear values used for successive encrypted inputs of a single call (decreasing so sub() does not underflow)
+const SAMPLE_CLEAR_VALUES = [42, 7, 3, 2, 1];
+
+/**
+ * Solidity-level type of an ABI parameter (e.g. "externalEuint32" rather than "bytes32")
+ */
+function solidityType(param: AbiParameter): string {
+  return (param.internalType || param.type).replace(/^(contract|struct|enum) /, "");
+}
+
+function isEncryptedType(type: string): boolean {
+  return /^(euint\d+|ebool|eaddress)$/.test(type);
+}
+
+/**
+ * Extract the body of a function from Solidity source by brace matching
+ */
+export function extractFunctionBody(source: string, functionName: string): string {
+  const match = new RegExp(`function\\s+${functionName}\\s*\\(`).exec(source);
+  if (!match) {
+    return "";
+  }
+
+  const start = source.indexOf("{", match.index);
+  const end = source.indexOf(";", match.index);
+  if (start === -1 || (end !== -1 && end < start)) {
+    return "";
+  }
+
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    if (source[i] === "{") depth++;
+    if (source[i] === "}") depth--;
+    if (depth === 0) {
+      return source.slice(start + 1, i);
+    }
+  }
+  return "";
+}
+
+/**
+ * A zero-argument view function returning a single encrypted handle (e.g. getResult())
+ */
+export interface HandleGetter {
+  name: string;
+  type: string;
+  storageVariable: string;
+}
+
+export function findHandleGetters(abi: AbiFragment[], source: string): HandleGetter[] {
+  const getters: HandleGetter[] = [];
+  for (const fragment of abi) {
+    if (fragment.type !== "function" || !fragment.name) continue;
+    if (fragment.stateMutability !== "view" && fragment.stateMutability !== "pure") continue;
+    if ((fragment.inputs || []).length !== 0 || (fragment.outputs || []).length !== 1) continue;
+
+    const type = solidityType(fragment.outputs![0]);
+    if (!isEncryptedType(type)) continue;
+
+    const returned = /return\s+([A-Za-z_]\w*)/.exec(extractFunctionBody(source, fragment.name));
+    if (returned) {
+      getters.push({ name: fragment.name, type, storageVariable: returned[1] });
+    }
+  }
+  return getters;
+}
+
+/**
+ * TypeScript expression for a plaintext argument of the given ABI parameter
+ */
+function plainSampleValue(param: AbiParameter, numeric: string): string | undefined {
+  const type = param.type;
+  if (type.endsWith("[]")) return "[]";
+  if (type === "address") return "signers.bob.address";
+  if (type === "bool") return "true";
+  if (type === "string") return `"Test"`;
+  if (type === "bytes") return `"0x"`;
+  if (/^bytes\d+$/.test(type)) return `ethers.zeroPadValue("0x01", ${type.slice(5)})`;
+  if (/^u?int\d*$/.test(type)) return numeric;
+  return undefined;
+}
+
+/**
+ * Clear result of FHE.<op>(operands) on values of `bits` width, or undefined for operations not modelled here
+ */
+function evaluateFheOperation(op: string, operands: bigint[], bits: number): bigint | boolean | undefined {
+  const size = 1n << BigInt(bits);
+  const wrap = (value: bigint) => ((value % size) + size) % size;
+  const [a, b] = operands;
+  const shift = b === undefined ? 0n : b % BigInt(bits);
+  switch (operands.length === 1 ? op : `${op}/2`) {
+    case "not":
+      return wrap(~a);
+    case "neg":
+      return wrap(-a);
+    case "add/2":
+      return wrap(a + b);
+    case "sub/2":
+      return wrap(a - b);
+    case "mul/2":
+      return wrap(a * b);
+    case "div/2":
+      return b === 0n ? undefined : a / b;
+    case "rem/2":
+      return b === 0n ? undefined : a % b;
+    case "and/2":
+      return a & b;
+    case "or/2":
+      return a | b;
+    case "xor/2":
+      return a ^ b;
+    case "shl/2":
+      return wrap(a << shift);
+    case "shr/2":
+      return a >> shift;
+    case "rotl/2":
+      return wrap((a << shift) | (a >> (BigInt(bits) - shift)));
+    case "rotr/2":
+      return wrap((a >> shift) | (a << (BigInt(bits) - shift)));
+    case "min/2":
+      return a < b ? a : b;
+    case "max/2":
+      return a > b ? a : b;
+    case "eq/2":
+      return a === b;
+    case "ne/2":
+      return a !== b;
+    case "lt/2":
+      return a < b;
+    case "le/2":
+      return a <= b;
+    case "gt/2":
+      return a > b;
+    case "ge/2":
+      return a >= b;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * TypeScript literal of the clear value a function stores in `storageVariable`, when it is an encrypted input or a
+ * single FHE operation on encrypted inputs, plaintext params and literals (e.g. `_result = FHE.add(encA, encB)`).
+ * `clearValues` holds the sample value passed for each param.
+ */
+export function expectedClearValue(
+  functionBody: string,
+  storageVariable: string,
+  type: string,
+  clearValues: Map<string, bigint>,
+): string | undefined {
+  const bits = type === "ebool" ? 1 : /^euint(\d+)$/.exec(type) ? parseInt(type.slice(5)) : undefined;
+  if (bits === undefined) return undefined;
+
+  // Locals decoded from an external input take its clear value: euint32 encA = FHE.fromExternal(a, proofA);
+  const values = new Map(clearValues);
+  for (const match of functionBody.matchAll(/\b(\w+)\s*=\s*FHE\.fromExternal\(\s*(\w+)\s*,/g)) {
+    const value = clearValues.get(match[2]);
+    if (value !== undefined) values.set(match[1], value);
+  }
+
+  const assignments = [...functionBody.matchAll(new RegExp(`\\b${storageVariable}\\s*=(?!=)\\s*([^;]+);`, "g"))];
+  if (assignments.length !== 1) return undefined;
+  const rhs = assignments[0][1].trim();
+
+  const operand = (text: string) => (/^\d+$/.test(text) ? BigInt(text) : values.get(text));
+  let result: bigint | boolean | undefined;
+  const operation = /^FHE\.(\w+)\(\s*(\w+)\s*(?:,\s*(\w+)\s*)?\)$/.exec(rhs);
+  if (operation) {
+    const operands = [operation[2], operation[3]].filter((o) => o !== undefined).map(operand);
+    if (operands.some((o) => o === undefined)) return undefined;
+    result = evaluateFheOperation(operation[1], operands as bigint[], bits);
+  } else if (/^\w+$/.test(rhs)) {
+    result = operand(rhs);
+  }
+
+  if (typeof result === "boolean") return type === "ebool" ? String(result) : undefined;
+  if (result === undefined) return undefined;
+  return type === "ebool" ? String(result !== 0n) : `${result}n`;
+}
+
+/**
+ * TypeScript statements that decrypt `handleExpr` as alice and assert the clear value, or only its type when the
+ * expected value is not known
+ */
+function decryptStatements(
+  type: string,
+  handleExpr: string,
+  clearVar: string,
+  contractVarName: string,
+  expected?: string,
+): string {
+  let decrypt: string;
+  let assertion: string;
+  if (type === "ebool") {
+    decrypt = `await fhevm.userDecryptEbool(${handleExpr}, ${contractVarName}ContractAddress, signers.alice)`;
+    assertion = `expect(${clearVar}).to.be.a("boolean");`;
+  } else if (type === "eaddress") {
+    decrypt = `await fhevm.userDecryptEaddress(${handleExpr}, ${contractVarName}ContractAddress, signers.alice)`;
+    assertion = `expect(ethers.isAddress(${clearVar})).to.eq(true);`;
+  } else {
+    decrypt = `await fhevm.userDecryptEuint(
+      FhevmType.${type},
+      ${handleExpr},
+      ${contractVarName}ContractAddress,
+      signers.alice,
+    )`;
+    assertion = `expect(${clearVar}).to.be.a("bigint");`;
+  }
+
+  if (expected !== undefined) {
+    assertion = `expect(${clearVar}).to.eq(${expected});`;
+  }
+
+  return `    expect(${handleExpr}).to.not.eq(ethers.ZeroHash);
+    const ${clearVar} = ${decrypt};
+    ${assertion}
+`;
+}
+
+export interface GeneratedFunctionTest {
+  content: string;
+  usesFhevmType: boolean;
+  // Why no test was generated
+  skipped?: string;
+}
+
+/**
+ * A function the generated tests can call, with the accessor to reach it (`.name` or `["name(types)"]`)
+ */
+export interface CallableFunction {
+  fragment: AbiFragment;
+  accessor: string;
+}
+
+export interface GeneratedCall {
+  // createEncryptedInput() statements building the encrypted arguments
+  setup: string;
+  call: string;
+  args: string[];
+  // Sample clear value of each numeric param, to compute the expected results
+  clearValues: Map<string, bigint>;
+  // Number of encryptedInput<X> variables declared by `setup`
+  groupCount: number;
+  unsupported?: string;
+}
+
+/**
+ * Build the arguments of a call as alice: encrypted inputs from the external param types, sample plain values
+ * otherwise. Encrypted input variables are lettered from `firstGroup` so that two calls can share one test.
+ */
+export function generateCall(
+  { fragment, accessor }: CallableFunction,
+  contractVarName: string,
+  firstGroup = 0,
+): GeneratedCall {
+  const inputs = fragment.inputs || [];
+  const args: string[] = [];
+  let groupCount = firstGroup;
+  let clearCount = 0;
+  let current: { variable: string; chain: string[]; valueCount: number } | undefined;
+  const groups: { variable: string; chain: string[] }[] = [];
+  const clearValues = new Map<string, bigint>();
+  let unsupported: string | undefined;
+
+  const nextGroupVariable = () => {
+    const variable = `encryptedInput${String.fromCharCode(65 + groupCount)}`;
+    groupCount++;
+    return variable;
+  };
+
+  // Consecutive external inputs share one createEncryptedInput() chain, closed by the next bytes proof
+  for (const param of inputs) {
+    const type = solidityType(param);
+    const baseType = type.replace(/\[\]$/, "");
+    const method = ENCRYPTED_INPUT_METHODS[baseType];
+
+    if (method) {
+      if (!current) {
+        current = { variable: nextGroupVariable(), chain: [], valueCount: 0 };
+        groups.push(current);
+      }
+      const count = type.endsWith("[]") ? 2 : 1;
+      const handles: string[] = [];
+      for (let i = 0; i < count; i++) {
+        const index = current.valueCount++;
+        const clear =
+          baseType === "externalEbool"
+            ? "true"
+            : baseType === "externalEaddress"
+              ? "signers.bob.address"
+              : String(SAMPLE_CLEAR_VALUES[clearCount++ % SAMPLE_CLEAR_VALUES.length]);
+        current.chain.push(`.${method}(${clear})`);
+        if (count === 1 && clear !== "signers.bob.address") {
+          clearValues.set(param.name, clear === "true" ? 1n : BigInt(clear));
+        }
+        handles.push(`${current.variable}.handles[${index}]`);
+      }
+      args.push(count === 1 ? handles[0] : `[${handles.join(", ")}]`);
+    } else if ((param.type === "bytes" || param.type === "bytes[]") && current) {
+      args.push(
+        param.type === "bytes"
+          ? `${current.variable}.inputProof`
+          : `[${Array(current.valueCount).fill(`${current.variable}.inputProof`).join(", ")}]`,
+      );
+      current = undefined;
+    } else {
+      const value = plainSampleValue(param, "1");
+      if (value === undefined) {
+        unsupported = `${param.name || "argument"}: ${type}`;
+      }
+      if (value === "1" || value === "true") {
+        clearValues.set(param.name, 1n);
+      }
+      args.push(value ?? "undefined");
+    }
+  }
+
+  let setup = "";
+  for (const group of groups) {
+    setup += `    const ${group.variable} = await fhevm
+      .createEncryptedInput(${contractVarName}ContractAddress, signers.alice.address)
+      ${group.chain.join("\n      ")}
+      .encrypt();
+
+`;
+  }
+
+  const call = `${contractVarName}Contract.connect(signers.alice)${accessor}(${args.join(", ")})`;
+  return { setup, call, args, clearValues, groupCount, unsupported };
+}
+
+/**
+ * The first state-changing function that can be called and assigns `storageVariable`, preferring one whose stored
+ * clear value can be computed
+ */
+export function findWriter(
+  functions: CallableFunction[],
+  storageVariable: string,
+  type: string,
+  source: string,
+  contractVarName: string,
+): { writer: CallableFunction; generated: GeneratedCall; expected?: string } | undefined {
+  const assignment = new RegExp(`\\b${storageVariable}\\b(\\[[^\\]]*\\])*\\s*=(?!=)`);
+  let fallback: { writer: CallableFunction; generated: GeneratedCall } | undefined;
+  for (const writer of functions) {
+    const mutability = writer.fragment.stateMutability;
+    if (mutability === "view" || mutability === "pure") continue;
+
+    const functionBody = extractFunctionBody(source, writer.fragment.name!);
+    if (!assignment.test(functionBody)) continue;
+
+    const generated = generateCall(writer, contractVarName);
+    if (generated.unsupported) continue;
+
+    const expected = expectedClearValue(functionBody, storageVariable, type, generated.clearValues);
+    if (expected !== undefined) return { writer, generated, expected };
+    fallback = fallback ?? { writer, generated };
+  }
+  return fallback;
+}
+
+/**
+ * Generate a test that encrypts inputs, calls one external function and decrypts the handles it produces
+ */
+export function generateFunctionTest(
+  callable: CallableFunction,
+  functions: CallableFunction[],
+  contractVarName: string,
+  getters: HandleGetter[],
+  source: string,
+): GeneratedFunctionTest {
+  const { fragment, accessor } = callable;
+  const outputs = fragment.outputs || [];
+  const isView = fragment.stateMutability === "view" || fragment.stateMutability === "pure";
+  const returnedType = outputs.length === 1 ? solidityType(outputs[0]) : undefined;
+  const returnsHandle = returnedType !== undefined && isEncryptedType(returnedType);
+
+  // A getter reads storage that starts out empty: call a function writing it first, then decrypt what it stored
+  const getter = isView && returnsHandle ? getters.find((g) => g.name === fragment.name) : undefined;
+  const written = getter && findWriter(functions, getter.storageVariable, getter.type, source, contractVarName);
+
+  const { setup, call, args, clearValues, unsupported } = generateCall(
+    callable,
+    contractVarName,
+    written?.generated.groupCount,
+  );
+  if (unsupported) {
+    // A call with this argument would not type-check; the test is left out rather than stubbed
+    return { content: "", usesFhevmType: false, skipped: `unsupported parameter type (${unsupported})` };
+  }
+
+  let body = "";
+  let usesFhevmType = false;
+
+  if (isView) {
+    if (returnsHandle) {
+      if (written) {
+        body += `${written.generated.setup}    const tx = await ${written.generated.call};
+    await tx.wait();
+
+`;
+      }
+      body += `${setup}    const handle = await ${call};
+${decryptStatements(returnedType, "handle", "clearValue", contractVarName, written?.expected)}`;
+      usesFhevmType = returnedType.startsWith("euint");
+    } else {
+      body += `${setup}    const result = await ${call};
+    expect(result).to.not.be.undefined;
+`;
+    }
+  } else {
+    body += setup;
+    if (returnsHandle) {
+      // Simulate first to read the handle returned by the function; the transaction then grants its ACL
+      body += `    const returnedHandle = await ${contractVarName}Contract
+      .connect(signers.alice)
+      ${accessor}.staticCall(${args.join(", ")});
+
+`;
+    }
+
+    body += `    const tx = await ${call};
+    await tx.wait();
+`;
+
+    if (returnsHandle) {
+      body += "\n" + decryptStatements(returnedType, "returnedHandle", "clearReturned", contractVarName);
+      usesFhevmType = usesFhevmType || returnedType.startsWith("euint");
+    }
+
+    // Decrypt every stored handle this function writes to (e.g. `_result = FHE.add(...)` read by getResult())
+    const functionBody = extractFunctionBody(source, fragment.name!);
+    for (const getter of getters) {
+      const assignment = new RegExp(`\\b${getter.storageVariable}\\b(\\[[^\\]]*\\])*\\s*=(?!=)`);
+      if (!assignment.test(functionBody)) continue;
+
+      const suffix = getter.name.charAt(0).toUpperCase() + getter.name.slice(1);
+      const expected = expectedClearValue(functionBody, getter.storageVariable, getter.type, clearValues);
+      body += `
+    const handle${suffix} = await ${contractVarName}Contract.connect(signers.alice).${getter.name}();
+${decryptStatements(getter.type, `handle${suffix}`, `clear${suffix}`, contractVarName, expected)}`;
+      usesFhevmType = usesFhevmType || getter.type.startsWith("euint");
+    }
+  }
+
+  const title = isView ? `should read ${fragment.name}` : `should call ${fragment.name}`;
+  return {
+    content: `
+  describe("${fragment.name}", function () {
+    it("${title}", async function () {
+${body.replace(/^(?=.)/gm, "  ")}    });
+  });
+`,
+    usesFhevmType,
+  };
+}
+
+export interface GeneratedTestSuite {
+  content: string;
+  // Functions left without a test, with the reason
+  skipped: { name: string; reason: string }[];
+}
+
+/**
+ * Generate the test suite: deployment fixture plus one test per external function
+ */
+export function generateTestSuite(contractName: string, abi: AbiFragment[], source: string): GeneratedTestSuite {
+  const contractVarName = contractName.charAt(0).toLowerCase() + contractName.slice(1);
+  const functions = abi.filter((f) => f.type === "function" && f.name);
+  const getters = findHandleGetters(abi, source);
+  const constructorInputs = abi.find((f) => f.type === "constructor")?.inputs || [];
+  const deployArgs = constructorInputs.map((p) => plainSampleValue(p, "1000") ?? "undefined").join(", ");
+
+  // Overloaded functions must be called through their full signature
+  const nameCounts = new Map<string, number>();
+  functions.forEach((f) => nameCounts.set(f.name!, (nameCounts.get(f.name!) || 0) + 1));
+
+  const callables: CallableFunction[] = functions.map((fragment) => ({
+    fragment,
+    accessor:
+      nameCounts.get(fragment.name!)! > 1
+        ? `["${fragment.name}(${(fragment.inputs || []).map((p) => p.type).join(",")})"]`
+        : `.${fragment.name}`,
+  }));
+
+  let tests = "";
+  let usesFhevmType = false;
+  const skipped: GeneratedTestSuite["skipped"] = [];
+  for (const callable of callables) {
+    const generated = generateFunctionTest(callable, callables, contractVarName, getters, source);
+    if (generated.skipped) {
+      skipped.push({ name: callable.fragment.name!, reason: generated.skipped });
+    }
+    tests += generated.content;
+    usesFhevmType = usesFhevmType || generated.usesFhevmType;
+  }
+
+  let testContent = `import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { ${contractName}, ${contractName}__factory } from "../types";
+import { expect } from "chai";`;
+
+  if (usesFhevmType) {
+    testContent += `
+import { FhevmType } from "@fhevm/hardhat-plugin";`;
+  }
+
+  testContent += `
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture(${deployArgs.includes("signers.") ? "signers: Signers" : ""}) {
+  const factory = (await ethers.getContractFactory("${contractName}")) as ${contractName}__factory;
+  const ${contractVarName}Contract = (await factory.deploy(${deployArgs})) as ${contractName};
+  const ${contractVarName}ContractAddress = await ${contractVarName}Contract.getAddress();
+
+  return { ${contractVarName}Contract, ${contractVarName}ContractAddress };
+}
+
+describe("${contractName}", function () {
+  let signers: Signers;
+  let ${contractVarName}Contract: ${contractName};
+  let ${contractVarName}ContractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(\`This hardhat test suite cannot run on Sepolia Testnet\`);
+      this.skip();
+    }
+
+    ({ ${contractVarName}Contract, ${contractVarName}ContractAddress } = await deployFixture(${deployArgs.includes("signers.") ? "signers" : ""}));
+  });
+
+  it("should deploy successfully", async function () {
+    expect(await ${contractVarName}Contract.getAddress()).to.be.properAddress;
+  });
+${tests}});
+`;
+
+  return { content: testContent, skipped };
+}
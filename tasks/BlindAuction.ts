@@ -0,0 +1,216 @@
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import type { BlindAuction } from "../types";
+import { decryptHandle, encryptValues, getDeployment, resolveSigner, signerParam } from "./factory";
+
+/**
+ * Tutorial: Run an Auction Locally (--network localhost)
+ * ======================================================
+ *
+ * 1. From a separate terminal window:
+ *
+ *   npx hardhat node
+ *
+ * 2. Deploy the BlindAuction contract (deploy/BlindAuction.ts opens a one-hour auction; signer 0 is the beneficiary)
+ *
+ *   npx hardhat --network localhost deploy --tags BlindAuction
+ *
+ * 3. Bid from a few signers, then end the auction and reveal the winner. On a local network the end and reveal
+ *    tasks fast-forward time to the end of the auction.
+ *
+ *   npx hardhat --network localhost task:auction:bid --amount 100 --signer 1
+ *   npx hardhat --network localhost task:auction:bid --amount 250 --signer 2
+ *   npx hardhat --network localhost task:auction:status
+ *   npx hardhat --network localhost task:auction:end
+ *   npx hardhat --network localhost task:auction:reveal
+ *
+ */
+
+const AUCTION_STATES = ["Open", "Ended"];
+
+async function getBlindAuction(hre: HardhatRuntimeEnvironment, address?: string) {
+  const deployment = await getDeployment(hre, "BlindAuction", address);
+  const contract = await hre.ethers.getContractAt("BlindAuction", deployment.address);
+  return { address: deployment.address, contract };
+}
+
+/**
+ * The signer selected with --signer, by default the local account that is the auction's beneficiary; only the
+ * beneficiary can end the auction and decrypt the bids
+ */
+async function getBeneficiary(
+  hre: HardhatRuntimeEnvironment,
+  contract: BlindAuction,
+  signer?: string,
+): Promise<HardhatEthersSigner> {
+  const beneficiary = await contract.beneficiary();
+  return resolveSigner(hre, signer, beneficiary);
+}
+
+/**
+ * End the auction as the beneficiary, first fast-forwarding time to its end on a local network
+ */
+async function endAuction(
+  hre: HardhatRuntimeEnvironment,
+  contractAddress: string,
+  contract: BlindAuction,
+  beneficiary: HardhatEthersSigner,
+) {
+  const { fhevm, network } = hre;
+
+  const remainingTime = await contract.getRemainingTime();
+  if (remainingTime > 0n) {
+    if (!fhevm.isMock) {
+      throw new Error(`The auction is still open for ${remainingTime}s`);
+    }
+    await network.provider.send("evm_increaseTime", [Number(remainingTime)]);
+    await network.provider.send("evm_mine");
+    console.log(`Fast-forwarded ${remainingTime}s to the end of the auction`);
+  }
+
+  const tx = await contract.connect(beneficiary).endAuction();
+  console.log(`Wait for tx:${tx.hash}...`);
+
+  const receipt = await tx.wait();
+  console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+  const encryptedHighestBid = await contract.connect(beneficiary).getHighestBid();
+  const clearHighestBid = await decryptHandle(hre, "euint64", encryptedHighestBid, contractAddress, beneficiary);
+  console.log(`Highest bid: ${clearHighestBid}`);
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:auction:bid --amount 100 --signer 1
+ *   - npx hardhat --network sepolia task:auction:bid --amount 100
+ */
+task("task:auction:bid", "Calls the bid() function of BlindAuction Contract")
+  .addOptionalParam("address", "Optionally specify the BlindAuction contract address")
+  .addOptionalParam(...signerParam("Signer placing the bid"))
+  .addParam("amount", "The bid amount")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { address, contract } = await getBlindAuction(hre, taskArguments.address);
+    const signer = await resolveSigner(hre, taskArguments.signer);
+
+    // Encrypt the bid passed as argument
+    const encryptedBid = await encryptValues(hre, address, signer.address, [
+      { type: "euint64", value: taskArguments.amount },
+    ]);
+
+    const tx = await contract.connect(signer).bid(encryptedBid.handles[0], encryptedBid.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const encryptedMyBid = await contract.connect(signer).getMyBid();
+    const clearMyBid = await decryptHandle(hre, "euint64", encryptedMyBid, address, signer);
+    console.log(`Bid of ${signer.address}: ${clearMyBid}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:auction:status
+ *   - npx hardhat --network sepolia task:auction:status
+ */
+task("task:auction:status", "Prints the state of the BlindAuction Contract and which signers have bid")
+  .addOptionalParam("address", "Optionally specify the BlindAuction contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { contract } = await getBlindAuction(hre, taskArguments.address);
+    const signers = await ethers.getSigners();
+
+    console.log(`State          : ${AUCTION_STATES[Number(await contract.state())]}`);
+    console.log(`Beneficiary    : ${await contract.beneficiary()}`);
+    console.log(`Remaining time : ${await contract.getRemainingTime()}s`);
+    if (await contract.winnerClaimed()) {
+      console.log(`Winner         : ${await contract.highestBidder()}`);
+    }
+
+    console.log("Bids:");
+    for (const [i, signer] of signers.entries()) {
+      const hasBid = await contract.hasBid(signer.address);
+      console.log(`  [${i}] ${signer.address}: ${hasBid ? "bid placed" : "-"}`);
+    }
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:auction:end
+ *   - npx hardhat --network sepolia task:auction:end
+ */
+task("task:auction:end", "Calls the endAuction() function of BlindAuction Contract as the beneficiary")
+  .addOptionalParam("address", "Optionally specify the BlindAuction contract address")
+  .addOptionalParam(...signerParam("Signer acting as the beneficiary (by default the beneficiary)"))
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { address, contract } = await getBlindAuction(hre, taskArguments.address);
+    const beneficiary = await getBeneficiary(hre, contract, taskArguments.signer);
+
+    await endAuction(hre, address, contract, beneficiary);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:auction:reveal
+ *   - npx hardhat --network sepolia task:auction:reveal
+ */
+task("task:auction:reveal", "Decrypts every bid as the beneficiary and calls setWinner() with the highest bidder")
+  .addOptionalParam("address", "Optionally specify the BlindAuction contract address")
+  .addOptionalParam(...signerParam("Signer acting as the beneficiary (by default the beneficiary)"))
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { address, contract } = await getBlindAuction(hre, taskArguments.address);
+    const beneficiary = await getBeneficiary(hre, contract, taskArguments.signer);
+
+    if (await contract.winnerClaimed()) {
+      console.log(`Winner already set: ${await contract.highestBidder()}`);
+      return;
+    }
+    if (AUCTION_STATES[Number(await contract.state())] === "Open") {
+      await endAuction(hre, address, contract, beneficiary);
+    }
+
+    // Bids are private to their bidder, but bid() lets the beneficiary decrypt each of them; getMyBid() is read
+    // with the bidder as the caller to get the handle
+    const bidders = [
+      ...new Set((await contract.queryFilter(contract.filters.BidPlaced())).map((event) => event.args.bidder)),
+    ];
+    let winner: { bidder: string; amount: bigint } | undefined;
+    for (const bidder of bidders) {
+      const encryptedBid = await contract.connect(ethers.provider).getMyBid({ from: bidder });
+      try {
+        const amount = BigInt(await decryptHandle(hre, "euint64", encryptedBid, address, beneficiary));
+        console.log(`Bid of ${bidder}: ${amount}`);
+        if (!winner || amount > winner.amount) {
+          winner = { bidder, amount };
+        }
+      } catch (error) {
+        console.log(`Bid of ${bidder}: cannot decrypt (${error instanceof Error ? error.message : String(error)})`);
+      }
+    }
+    if (!winner) {
+      throw new Error("No bid could be decrypted");
+    }
+
+    const tx = await contract.connect(beneficiary).setWinner(winner.bidder);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Winner: ${winner.bidder} with a bid of ${winner.amount}`);
+  });
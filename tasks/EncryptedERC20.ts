@@ -0,0 +1,224 @@
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import type { EncryptedERC20 } from "../types";
+import { decryptHandle, encryptValues, getDeployment, resolveAddress, resolveSigner, signerParam } from "./factory";
+
+/**
+ * Tutorial: Deploy and Interact Locally (--network localhost)
+ * ===========================================================
+ *
+ * 1. From a separate terminal window:
+ *
+ *   npx hardhat node
+ *
+ * 2. Deploy the EncryptedERC20 contract (deploy/EncryptedERC20.ts mints the initial supply to signer 0)
+ *
+ *   npx hardhat --network localhost deploy --tags EncryptedERC20
+ *
+ * 3. Move tokens between the local signers (by address, signer index or named account)
+ *
+ *   npx hardhat --network localhost task:erc20:balance
+ *   npx hardhat --network localhost task:erc20:transfer --to 1 --amount 100
+ *   npx hardhat --network localhost task:erc20:approve --spender 1 --amount 50
+ *   npx hardhat --network localhost task:erc20:allowance --owner 0 --spender 1
+ *   npx hardhat --network localhost task:erc20:transfer-from --from 0 --to 2 --amount 20 --signer 1
+ *   npx hardhat --network localhost task:erc20:balance --signer 2
+ *
+ */
+
+async function getEncryptedERC20(hre: HardhatRuntimeEnvironment, address?: string) {
+  const deployment = await getDeployment(hre, "EncryptedERC20", address);
+  const contract = await hre.ethers.getContractAt("EncryptedERC20", deployment.address);
+  return { address: deployment.address, contract };
+}
+
+/**
+ * Decrypt balanceOf() for each address that belongs to a local signer; other balances are only shown to their owner
+ */
+async function printBalances(
+  hre: HardhatRuntimeEnvironment,
+  contractAddress: string,
+  contract: EncryptedERC20,
+  signers: HardhatEthersSigner[],
+  addresses: string[],
+) {
+  for (const address of addresses) {
+    const signer = signers.find((s) => s.address === address);
+    if (!signer) {
+      console.log(`Balance of ${address}: not a local signer, cannot decrypt`);
+      continue;
+    }
+    const encryptedBalance = await contract.connect(signer).balanceOf();
+    const clearBalance = await decryptHandle(hre, "euint64", encryptedBalance, contractAddress, signer);
+    console.log(`Balance of ${address}: ${clearBalance}`);
+  }
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:erc20:balance --signer 1
+ *   - npx hardhat --network sepolia task:erc20:balance
+ */
+task("task:erc20:balance", "Decrypts the balanceOf() of a signer of the EncryptedERC20 Contract")
+  .addOptionalParam("address", "Optionally specify the EncryptedERC20 contract address")
+  .addOptionalParam(...signerParam("Signer whose balance to decrypt"))
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { address, contract } = await getEncryptedERC20(hre, taskArguments.address);
+    const signer = await resolveSigner(hre, taskArguments.signer);
+
+    const encryptedBalance = await contract.connect(signer).balanceOf();
+    const clearBalance = await decryptHandle(hre, "euint64", encryptedBalance, address, signer);
+    console.log(`Signer           : ${signer.address}`);
+    console.log(`Encrypted balance: ${encryptedBalance}`);
+    console.log(`Clear balance    : ${clearBalance}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:erc20:transfer --to 1 --amount 100
+ *   - npx hardhat --network sepolia task:erc20:transfer --to 0x... --amount 100
+ */
+task("task:erc20:transfer", "Calls the transfer() function of EncryptedERC20 Contract")
+  .addOptionalParam("address", "Optionally specify the EncryptedERC20 contract address")
+  .addOptionalParam(...signerParam("Signer sending the tokens"))
+  .addParam("to", "The recipient address, signer index or named account")
+  .addParam("amount", "The amount to transfer")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { address, contract } = await getEncryptedERC20(hre, taskArguments.address);
+    const signers = await ethers.getSigners();
+    const signer = await resolveSigner(hre, taskArguments.signer);
+    const to = await resolveAddress(hre, taskArguments.to);
+
+    // Encrypt the amount passed as argument
+    const encryptedAmount = await encryptValues(hre, address, signer.address, [
+      { type: "euint64", value: taskArguments.amount },
+    ]);
+
+    const tx = await contract.connect(signer).transfer(to, encryptedAmount.handles[0], encryptedAmount.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    // A transfer above the balance moves 0 tokens instead of reverting
+    await printBalances(hre, address, contract, signers, [signer.address, to]);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:erc20:approve --spender 1 --amount 50
+ *   - npx hardhat --network sepolia task:erc20:approve --spender 0x... --amount 50
+ */
+task("task:erc20:approve", "Calls the approve() function of EncryptedERC20 Contract")
+  .addOptionalParam("address", "Optionally specify the EncryptedERC20 contract address")
+  .addOptionalParam(...signerParam("Signer granting the allowance"))
+  .addParam("spender", "The spender address, signer index or named account")
+  .addParam("amount", "The amount the spender may transfer")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { address, contract } = await getEncryptedERC20(hre, taskArguments.address);
+    const signers = await ethers.getSigners();
+    const signer = await resolveSigner(hre, taskArguments.signer);
+    const spender = await resolveAddress(hre, taskArguments.spender);
+
+    const encryptedAmount = await encryptValues(hre, address, signer.address, [
+      { type: "euint64", value: taskArguments.amount },
+    ]);
+
+    const tx = await contract.connect(signer).approve(spender, encryptedAmount.handles[0], encryptedAmount.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const encryptedAllowance = await contract.allowance(signer.address, spender);
+    const clearAllowance = await decryptHandle(hre, "euint64", encryptedAllowance, address, signer);
+    console.log(`Allowance of ${spender}: ${clearAllowance}`);
+    await printBalances(hre, address, contract, signers, [signer.address]);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:erc20:allowance --owner 0 --spender 1
+ *   - npx hardhat --network localhost task:erc20:allowance --owner 0 --spender 1 --signer 1
+ *   - npx hardhat --network sepolia task:erc20:allowance --owner 0x... --spender 0x...
+ */
+task("task:erc20:allowance", "Decrypts the allowance() of a spender of the EncryptedERC20 Contract")
+  .addOptionalParam("address", "Optionally specify the EncryptedERC20 contract address")
+  .addOptionalParam(...signerParam("Signer decrypting the allowance, its owner (default) or spender"))
+  .addParam("owner", "The owner address, signer index or named account")
+  .addParam("spender", "The spender address, signer index or named account")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { address, contract } = await getEncryptedERC20(hre, taskArguments.address);
+    const owner = await resolveAddress(hre, taskArguments.owner);
+    const spender = await resolveAddress(hre, taskArguments.spender);
+
+    // Only the owner and the spender are allowed to decrypt the allowance
+    const signer = await resolveSigner(hre, taskArguments.signer, owner);
+    if (signer.address !== owner && signer.address !== spender) {
+      throw new Error(`Signer ${signer.address}: neither the owner nor the spender, cannot decrypt`);
+    }
+
+    const encryptedAllowance = await contract.allowance(owner, spender);
+    const clearAllowance = await decryptHandle(hre, "euint64", encryptedAllowance, address, signer);
+    console.log(`Encrypted allowance: ${encryptedAllowance}`);
+    console.log(`Clear allowance    : ${clearAllowance}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:erc20:transfer-from --from 0 --to 2 --amount 20 --signer 1
+ *   - npx hardhat --network sepolia task:erc20:transfer-from --from 0x... --to 0x... --amount 20
+ */
+task("task:erc20:transfer-from", "Calls the transferFrom() function of EncryptedERC20 Contract")
+  .addOptionalParam("address", "Optionally specify the EncryptedERC20 contract address")
+  .addOptionalParam(...signerParam("Signer spending the allowance"))
+  .addParam("from", "The owner address, signer index or named account")
+  .addParam("to", "The recipient address, signer index or named account")
+  .addParam("amount", "The amount to transfer")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { address, contract } = await getEncryptedERC20(hre, taskArguments.address);
+    const signers = await ethers.getSigners();
+    const signer = await resolveSigner(hre, taskArguments.signer);
+    const from = await resolveAddress(hre, taskArguments.from);
+    const to = await resolveAddress(hre, taskArguments.to);
+
+    const encryptedAmount = await encryptValues(hre, address, signer.address, [
+      { type: "euint64", value: taskArguments.amount },
+    ]);
+
+    const tx = await contract
+      .connect(signer)
+      .transferFrom(from, to, encryptedAmount.handles[0], encryptedAmount.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    // A transfer above the allowance or balance moves 0 tokens instead of reverting
+    const encryptedAllowance = await contract.allowance(from, signer.address);
+    const clearAllowance = await decryptHandle(hre, "euint64", encryptedAllowance, address, signer);
+    console.log(`Remaining allowance: ${clearAllowance}`);
+    await printBalances(hre, address, contract, signers, [from, to]);
+  });
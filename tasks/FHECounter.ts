@@ -1,7 +1,8 @@
-import { FhevmType } from "@fhevm/hardhat-plugin";
 import { task } from "hardhat/config";
 import type { TaskArguments } from "hardhat/types";
 
+import { decryptHandle, encryptValues, getDeployment, resolveSigner, signerParam } from "./factory";
+
 /**
  * Tutorial: Deploy and Interact Locally (--network localhost)
  * ===========================================================
@@ -21,6 +22,16 @@ import type { TaskArguments } from "hardhat/types";
  *   npx hardhat --network localhost task:decrement --value 1
  *   npx hardhat --network localhost task:decrypt-count
  *
+ * --signer sends from and decrypts as another account, by index, address or named account:
+ *
+ *   npx hardhat --network localhost task:increment --value 3 --signer 1
+ *   npx hardhat --network localhost task:decrypt-count --signer deployer
+ *
+ * Every FHECounter function also has a generated task (see tasks/factory.ts):
+ *
+ *   npx hardhat --network localhost task:FHECounter:increment --input-euint32 2
+ *   npx hardhat --network localhost task:FHECounter:getCount
+ *
  *
  * Tutorial: Deploy and Interact on Sepolia (--network sepolia)
  * ===========================================================
@@ -58,33 +69,20 @@ task("task:address", "Prints the FHECounter address").setAction(async function (
  */
 task("task:decrypt-count", "Calls the getCount() function of Counter Contract")
   .addOptionalParam("address", "Optionally specify the Counter contract address")
+  .addOptionalParam(...signerParam("Signer decrypting the count"))
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments, fhevm } = hre;
+    const { ethers, fhevm } = hre;
 
     await fhevm.initializeCLIApi();
 
-    const FHECounterDeployement = taskArguments.address
-      ? { address: taskArguments.address }
-      : await deployments.get("FHECounter");
-    console.log(`FHECounter: ${FHECounterDeployement.address}`);
+    const FHECounterDeployement = await getDeployment(hre, "FHECounter", taskArguments.address);
 
-    const signers = await ethers.getSigners();
+    const signer = await resolveSigner(hre, taskArguments.signer);
 
     const fheCounterContract = await ethers.getContractAt("FHECounter", FHECounterDeployement.address);
 
     const encryptedCount = await fheCounterContract.getCount();
-    if (encryptedCount === ethers.ZeroHash) {
-      console.log(`encrypted count: ${encryptedCount}`);
-      console.log("clear count    : 0");
-      return;
-    }
-
-    const clearCount = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
-      encryptedCount,
-      FHECounterDeployement.address,
-      signers[0],
-    );
+    const clearCount = await decryptHandle(hre, "euint32", encryptedCount, FHECounterDeployement.address, signer);
     console.log(`Encrypted count: ${encryptedCount}`);
     console.log(`Clear count    : ${clearCount}`);
   });
@@ -96,9 +94,10 @@ task("task:decrypt-count", "Calls the getCount() function of Counter Contract")
  */
 task("task:increment", "Calls the increment() function of FHECounter Contract")
   .addOptionalParam("address", "Optionally specify the FHECounter contract address")
+  .addOptionalParam(...signerParam("Signer sending the increment"))
   .addParam("value", "The increment value")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments, fhevm } = hre;
+    const { ethers, fhevm } = hre;
 
     const value = parseInt(taskArguments.value);
     if (!Number.isInteger(value)) {
@@ -107,24 +106,18 @@ task("task:increment", "Calls the increment() function of FHECounter Contract")
 
     await fhevm.initializeCLIApi();
 
-    const FHECounterDeployement = taskArguments.address
-      ? { address: taskArguments.address }
-      : await deployments.get("FHECounter");
-    console.log(`FHECounter: ${FHECounterDeployement.address}`);
+    const FHECounterDeployement = await getDeployment(hre, "FHECounter", taskArguments.address);
 
-    const signers = await ethers.getSigners();
+    const signer = await resolveSigner(hre, taskArguments.signer);
 
     const fheCounterContract = await ethers.getContractAt("FHECounter", FHECounterDeployement.address);
 
     // Encrypt the value passed as argument
-    const encryptedValue = await fhevm
-      .createEncryptedInput(FHECounterDeployement.address, signers[0].address)
-      .add32(value)
-      .encrypt();
-
-    const tx = await fheCounterContract
-      .connect(signers[0])
-      .increment(encryptedValue.handles[0], encryptedValue.inputProof);
+    const encryptedValue = await encryptValues(hre, FHECounterDeployement.address, signer.address, [
+      { type: "euint32", value: String(value) },
+    ]);
+
+    const tx = await fheCounterContract.connect(signer).increment(encryptedValue.handles[0], encryptedValue.inputProof);
     console.log(`Wait for tx:${tx.hash}...`);
 
     const receipt = await tx.wait();
@@ -143,9 +136,10 @@ task("task:increment", "Calls the increment() function of FHECounter Contract")
  */
 task("task:decrement", "Calls the decrement() function of FHECounter Contract")
   .addOptionalParam("address", "Optionally specify the FHECounter contract address")
+  .addOptionalParam(...signerParam("Signer sending the decrement"))
   .addParam("value", "The decrement value")
   .setAction(async function (taskArguments: TaskArguments, hre) {
-    const { ethers, deployments, fhevm } = hre;
+    const { ethers, fhevm } = hre;
 
     const value = parseInt(taskArguments.value);
     if (!Number.isInteger(value)) {
@@ -154,24 +148,18 @@ task("task:decrement", "Calls the decrement() function of FHECounter Contract")
 
     await fhevm.initializeCLIApi();
 
-    const FHECounterDeployement = taskArguments.address
-      ? { address: taskArguments.address }
-      : await deployments.get("FHECounter");
-    console.log(`FHECounter: ${FHECounterDeployement.address}`);
+    const FHECounterDeployement = await getDeployment(hre, "FHECounter", taskArguments.address);
 
-    const signers = await ethers.getSigners();
+    const signer = await resolveSigner(hre, taskArguments.signer);
 
     const fheCounterContract = await ethers.getContractAt("FHECounter", FHECounterDeployement.address);
 
     // Encrypt the value passed as argument
-    const encryptedValue = await fhevm
-      .createEncryptedInput(FHECounterDeployement.address, signers[0].address)
-      .add32(value)
-      .encrypt();
-
-    const tx = await fheCounterContract
-      .connect(signers[0])
-      .decrement(encryptedValue.handles[0], encryptedValue.inputProof);
+    const encryptedValue = await encryptValues(hre, FHECounterDeployement.address, signer.address, [
+      { type: "euint32", value: String(value) },
+    ]);
+
+    const tx = await fheCounterContract.connect(signer).decrement(encryptedValue.handles[0], encryptedValue.inputProof);
     console.log(`Wait for tx:${tx.hash}...`);
 
     const receipt = await tx.wait();
@@ -0,0 +1,154 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+
+import { decryptHandle, encryptValues, getDeployment, resolveAddress, resolveSigner, signerParam } from "./factory";
+
+/**
+ * Tutorial: Match Two Users Locally (--network localhost)
+ * =======================================================
+ *
+ * 1. From a separate terminal window:
+ *
+ *   npx hardhat node
+ *
+ * 2. Deploy the TrustlessMatching contract
+ *
+ *   npx hardhat --network localhost deploy --tags TrustlessMatching
+ *
+ * 3. Register two signers, let each vote for the other, then check whether they match. Votes stay encrypted: the
+ *    check only reveals whether both liked each other.
+ *
+ *   npx hardhat --network localhost task:match:register --signer 1
+ *   npx hardhat --network localhost task:match:register --signer 2
+ *   npx hardhat --network localhost task:match:vote --target 2 --like true --signer 1
+ *   npx hardhat --network localhost task:match:vote --target 1 --like true --signer 2
+ *   npx hardhat --network localhost task:match:status
+ *   npx hardhat --network localhost task:match:check --other 2 --signer 1
+ *
+ */
+
+async function getTrustlessMatching(hre: HardhatRuntimeEnvironment, address?: string) {
+  const deployment = await getDeployment(hre, "TrustlessMatching", address);
+  const contract = await hre.ethers.getContractAt("TrustlessMatching", deployment.address);
+  return { address: deployment.address, contract };
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:match:register --signer 1
+ *   - npx hardhat --network sepolia task:match:register
+ */
+task("task:match:register", "Calls the register() function of TrustlessMatching Contract")
+  .addOptionalParam("address", "Optionally specify the TrustlessMatching contract address")
+  .addOptionalParam(...signerParam("Signer to register"))
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract } = await getTrustlessMatching(hre, taskArguments.address);
+    const signer = await resolveSigner(hre, taskArguments.signer);
+
+    const tx = await contract.connect(signer).register();
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    console.log(`Registered ${signer.address}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:match:vote --target 2 --like true --signer 1
+ *   - npx hardhat --network sepolia task:match:vote --target 0x... --like false
+ */
+task("task:match:vote", "Calls the vote() function of TrustlessMatching Contract with an encrypted like")
+  .addOptionalParam("address", "Optionally specify the TrustlessMatching contract address")
+  .addOptionalParam(...signerParam("Signer voting"))
+  .addParam("target", "The address voted on, signer index or named account")
+  .addParam("like", "true or false")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    if (taskArguments.like !== "true" && taskArguments.like !== "false") {
+      throw new Error(`Argument --like is not true or false`);
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const { address, contract } = await getTrustlessMatching(hre, taskArguments.address);
+    const signer = await resolveSigner(hre, taskArguments.signer);
+    const target = await resolveAddress(hre, taskArguments.target);
+
+    // Encrypt the vote with addBool
+    const encryptedVote = await encryptValues(hre, address, signer.address, [
+      { type: "ebool", value: taskArguments.like },
+    ]);
+
+    const tx = await contract.connect(signer).vote(target, encryptedVote.handles[0], encryptedVote.inputProof);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const encryptedMyVote = await contract.connect(signer).getMyVote(target);
+    const clearMyVote = await decryptHandle(hre, "ebool", encryptedMyVote, address, signer);
+    console.log(`Vote of ${signer.address} for ${target}: ${clearMyVote === "true" ? "like" : "pass"}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:match:check --other 2 --signer 1
+ *   - npx hardhat --network sepolia task:match:check --other 0x...
+ */
+task("task:match:check", "Calls the getEncryptedMatchResult() function of TrustlessMatching Contract and decrypts it")
+  .addOptionalParam("address", "Optionally specify the TrustlessMatching contract address")
+  .addOptionalParam(...signerParam("Signer checking the match"))
+  .addParam("other", "The other user's address, signer index or named account")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const { address, contract } = await getTrustlessMatching(hre, taskArguments.address);
+    const signer = await resolveSigner(hre, taskArguments.signer);
+    const other = await resolveAddress(hre, taskArguments.other);
+
+    // The result handle is not in the receipt: simulate the call to get it. FHE.and of the same two votes yields the
+    // same handle, and the transaction then grants both users access to it.
+    const encryptedMatch = await contract.connect(signer).getEncryptedMatchResult.staticCall(other);
+
+    const tx = await contract.connect(signer).getEncryptedMatchResult(other);
+    console.log(`Wait for tx:${tx.hash}...`);
+
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+    const clearMatch = await decryptHandle(hre, "ebool", encryptedMatch, address, signer);
+    console.log(`Encrypted match: ${encryptedMatch}`);
+    console.log(`Clear match    : ${clearMatch === "true" ? "it's a match" : "no match"}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:match:status
+ *   - npx hardhat --network sepolia task:match:status
+ */
+task("task:match:status", "Prints which signers are registered and the hasVoted matrix between them")
+  .addOptionalParam("address", "Optionally specify the TrustlessMatching contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers } = hre;
+
+    const { contract } = await getTrustlessMatching(hre, taskArguments.address);
+    const signers = await ethers.getSigners();
+
+    // Row i, column j: x when signer i voted on signer j
+    const width = String(signers.length - 1).length + 2;
+    console.log(`${"voter \\ target".padEnd(16)}${signers.map((_, j) => String(j).padStart(width)).join("")}`);
+    for (const [i, voter] of signers.entries()) {
+      const cells: string[] = [];
+      for (const [j, target] of signers.entries()) {
+        const cell = i === j ? "-" : (await contract.hasVoted(voter.address, target.address)) ? "x" : ".";
+        cells.push(cell.padStart(width));
+      }
+      const registered = (await contract.registered(voter.address)) ? "registered" : "";
+      console.log(`${String(i).padEnd(16)}${cells.join("")}  ${registered}`.trimEnd());
+    }
+  });
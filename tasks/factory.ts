@@ -0,0 +1,383 @@
+import { FhevmType, FhevmTypeEuint } from "@fhevm/hardhat-plugin";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import * as fs from "fs";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import * as path from "path";
+
+/**
+ * Tasks generated from the compiled ABIs: task:<Contract>:<function> for every external function
+ * ===========================================================================================
+ *
+ *   npx hardhat --network localhost task:FHECounter:increment --input-euint32 2
+ *   npx hardhat --network localhost task:FHECounter:getCount
+ *   npx hardhat --network localhost task:EncryptedERC20:transfer --to 0x... --encrypted-amount 100 --signer 1
+ *
+ * externalEuintN / externalEbool / externalEaddress params take plain values; they are encrypted for the
+ * contract and the sender, and the bytes param that follows them receives the inputProof. Encrypted handles
+ * returned by view functions are user-decrypted. --signer picks the sender, by index, address or named
+ * account. Run `npx hardhat compile` first: tasks are only registered for contracts with an artifact.
+ */
+
+interface AbiParam {
+  name: string;
+  type: string;
+  internalType?: string;
+}
+
+interface AbiFunction {
+  type: string;
+  name: string;
+  stateMutability: string;
+  inputs: AbiParam[];
+  outputs: AbiParam[];
+}
+
+// A group of external params encrypted together, and the bytes param receiving their inputProof
+interface EncryptedGroup {
+  inputs: number[];
+  proof: number;
+  array: boolean;
+}
+
+// Names hardhat uses for its own params, plus the contract address override and the signer
+const RESERVED_PARAMS = [
+  "address",
+  "signer",
+  "network",
+  "showStackTraces",
+  "version",
+  "help",
+  "emoji",
+  "config",
+  "verbose",
+  "maxMemory",
+  "tsconfig",
+  "flamegraph",
+  "typecheck",
+];
+
+/**
+ * Deployment of `contractName`, or the address passed with --address
+ */
+export async function getDeployment(
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+  address?: string,
+): Promise<{ address: string }> {
+  const deployment = address ? { address } : await hre.deployments.get(contractName);
+  console.log(`${contractName}: ${deployment.address}`);
+  return deployment;
+}
+
+// Accepted by the --signer param of every task; hardhat has no global options for plugins to add
+const SIGNER_VALUES = "an index into the configured accounts, one of their addresses, or a named account";
+
+/**
+ * Name and description of the --signer param every task declares, e.g.
+ * `.addOptionalParam(...signerParam("Signer placing the bid"))`. Tasks read it with resolveSigner.
+ */
+export function signerParam(role: string): [name: string, description: string] {
+  return ["signer", `${role}: ${SIGNER_VALUES}`];
+}
+
+/**
+ * The address for an index into ethers.getSigners(), a hardhat-deploy named account (e.g. "deployer"), or an address
+ */
+export async function resolveAddress(hre: HardhatRuntimeEnvironment, value: string): Promise<string> {
+  if (/^\d+$/.test(value)) {
+    const signers = await hre.ethers.getSigners();
+    const signer = signers[parseInt(value)];
+    if (!signer) {
+      throw new Error(`No signer at index ${value} (0-${signers.length - 1})`);
+    }
+    return signer.address;
+  }
+  const namedAccounts = await hre.getNamedAccounts();
+  if (Object.prototype.hasOwnProperty.call(namedAccounts, value)) {
+    return namedAccounts[value];
+  }
+  if (!hre.ethers.isAddress(value)) {
+    throw new Error(
+      `"${value}" is not a signer index, a named account (${Object.keys(namedAccounts).join(", ")}) or an address`,
+    );
+  }
+  return hre.ethers.getAddress(value);
+}
+
+/**
+ * The signer selected with --signer (see resolveAddress), or `fallback` when it is not passed: the first configured
+ * account unless the task defaults to another one. Tasks encrypt inputs for, send from and decrypt as this signer.
+ */
+export async function resolveSigner(
+  hre: HardhatRuntimeEnvironment,
+  value: string | undefined,
+  fallback: string = "0",
+): Promise<HardhatEthersSigner> {
+  const address = await resolveAddress(hre, value ?? fallback);
+  const signer = (await hre.ethers.getSigners()).find((s) => s.address === address);
+  if (!signer) {
+    throw new Error(`Signer ${address} is not one of the configured accounts, pick another one with --signer`);
+  }
+  return signer;
+}
+
+/**
+ * The encrypted type behind an ABI param, e.g. "euint32" for externalEuint32, euint32 or euint32[]
+ */
+export function encryptedType(param: AbiParam): string | undefined {
+  const match = /^(?:externalE|e)(bool|address|uint\d+)(?:\[\])?$/.exec(param.internalType ?? "");
+  return match ? `e${match[1]}` : undefined;
+}
+
+function isExternal(param: AbiParam): boolean {
+  return (param.internalType ?? "").startsWith("external");
+}
+
+/**
+ * Encrypt plain CLI values (e.g. ["euint64", "100"]) into one input for the contract and the user
+ */
+export async function encryptValues(
+  hre: HardhatRuntimeEnvironment,
+  contractAddress: string,
+  userAddress: string,
+  values: { type: string; value: string }[],
+): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }> {
+  const input = hre.fhevm.createEncryptedInput(contractAddress, userAddress);
+  for (const { type, value } of values) {
+    if (type === "ebool") {
+      if (value !== "true" && value !== "false") throw new Error(`Expected true or false for ${type}, got ${value}`);
+      input.addBool(value === "true");
+    } else if (type === "eaddress") {
+      input.addAddress(hre.ethers.getAddress(value));
+    } else {
+      const bits = type.replace("euint", "");
+      const add = input[`add${bits}` as "add64"];
+      if (typeof add !== "function") throw new Error(`Cannot encrypt ${type} values`);
+      add.call(input, parseInteger(value));
+    }
+  }
+  return input.encrypt();
+}
+
+/**
+ * User-decrypt a handle of an encrypted type; a zero handle was never initialized and reads as 0
+ */
+export async function decryptHandle(
+  hre: HardhatRuntimeEnvironment,
+  type: string,
+  handle: string,
+  contractAddress: string,
+  signer: HardhatEthersSigner,
+): Promise<string> {
+  const { ethers, fhevm } = hre;
+  if (handle === ethers.ZeroHash) {
+    return type === "ebool" ? "false" : type === "eaddress" ? ethers.ZeroAddress : "0";
+  }
+  if (type === "ebool") {
+    return String(await fhevm.userDecryptEbool(handle, contractAddress, signer));
+  }
+  if (type === "eaddress") {
+    return fhevm.userDecryptEaddress(handle, contractAddress, signer);
+  }
+  const fhevmType = FhevmType[type as keyof typeof FhevmType] as FhevmTypeEuint;
+  return String(await fhevm.userDecryptEuint(fhevmType, handle, contractAddress, signer));
+}
+
+function parseInteger(value: string): bigint {
+  try {
+    return BigInt(value);
+  } catch {
+    throw new Error(`Expected an integer, got ${value}`);
+  }
+}
+
+/**
+ * Convert a CLI string to the value ethers expects for an ABI type
+ */
+function parsePlain(type: string, value: string): unknown {
+  if (type.endsWith("]")) {
+    const items = JSON.parse(value);
+    if (!Array.isArray(items)) throw new Error(`Expected a JSON array for ${type}, got ${value}`);
+    return items.map((item) => parsePlain(type.replace(/\[\d*\]$/, ""), String(item)));
+  }
+  if (/^u?int\d*$/.test(type)) return parseInteger(value);
+  if (type === "bool") {
+    if (value !== "true" && value !== "false") throw new Error(`Expected true or false, got ${value}`);
+    return value === "true";
+  }
+  return value;
+}
+
+/**
+ * Group each run of external params with the bytes param after it; undefined when a function takes params the
+ * CLI cannot provide (tuples, or external params without an inputProof)
+ */
+function encryptedGroups(inputs: AbiParam[]): EncryptedGroup[] | undefined {
+  const groups: EncryptedGroup[] = [];
+  let pending: number[] = [];
+  for (const [i, input] of inputs.entries()) {
+    if (input.type.startsWith("tuple")) return undefined;
+    if (isExternal(input)) {
+      pending.push(i);
+      continue;
+    }
+    if (pending.length > 0) {
+      const array = input.type === "bytes[]";
+      if ((input.type !== "bytes" && !array) || (array && pending.length !== 1)) return undefined;
+      groups.push({ inputs: pending, proof: i, array });
+      pending = [];
+    }
+  }
+  return pending.length === 0 ? groups : undefined;
+}
+
+/**
+ * CLI param names: camelCase ABI names, or arg<i> for unnamed params and names hardhat already uses
+ */
+function paramNames(inputs: AbiParam[]): string[] {
+  const names: string[] = [];
+  for (const [i, input] of inputs.entries()) {
+    const name = input.name.replace(/^_+/, "");
+    const camel = name.charAt(0).toLowerCase() + name.slice(1);
+    const valid = /^[a-z][a-zA-Z0-9]*$/.test(camel) && !RESERVED_PARAMS.includes(camel) && !names.includes(camel);
+    names.push(valid ? camel : `arg${i}`);
+  }
+  return names;
+}
+
+function signature(fn: AbiFunction, types: "internal" | "abi"): string {
+  return `${fn.name}(${fn.inputs.map((input) => (types === "internal" && input.internalType) || input.type).join(",")})`;
+}
+
+/**
+ * Register task:<contractName>:<function> for every external function of an ABI
+ */
+export function registerContractTasks(contractName: string, abi: AbiFunction[]): void {
+  const registered = new Set<string>();
+  for (const fn of abi) {
+    // Overloads share a task name; the first one declared gets it
+    if (fn.type !== "function" || registered.has(fn.name)) continue;
+    const groups = encryptedGroups(fn.inputs);
+    if (!groups) continue;
+
+    registered.add(fn.name);
+
+    const proofs = new Set(groups.map((group) => group.proof));
+    const names = paramNames(fn.inputs);
+    const isView = fn.stateMutability === "view" || fn.stateMutability === "pure";
+
+    const definition = task(
+      `task:${contractName}:${fn.name}`,
+      `${isView ? "Reads" : "Calls"} ${signature(fn, "internal")} on ${contractName}`,
+    )
+      .addOptionalParam("address", `Optionally specify the ${contractName} contract address`)
+      .addOptionalParam(...signerParam("Signer sending the call and decrypting the results"));
+    for (const [i, input] of fn.inputs.entries()) {
+      if (proofs.has(i)) continue;
+      const type = encryptedType(input);
+      const description = isExternal(input)
+        ? `${input.internalType} ${input.name}: plain value${input.type.endsWith("]") ? "s as a JSON array" : ""}, encrypted as ${type}`
+        : `${input.type} ${input.name}${input.type.endsWith("]") ? " (JSON array)" : ""}`;
+      definition.addParam(names[i], description);
+    }
+
+    definition.setAction(async function (taskArguments: TaskArguments, hre) {
+      const { ethers, fhevm } = hre;
+
+      await fhevm.initializeCLIApi();
+
+      const deployment = await getDeployment(hre, contractName, taskArguments.address);
+      const signer = await resolveSigner(hre, taskArguments.signer);
+      const contract = await ethers.getContractAt(contractName, deployment.address);
+
+      const args: unknown[] = fn.inputs.map((input, i) =>
+        isExternal(input) || proofs.has(i) ? undefined : parsePlain(input.type, taskArguments[names[i]]),
+      );
+
+      // Encrypt the external params of each group for the sender, and pass the inputProof alongside
+      for (const group of groups) {
+        if (group.array) {
+          const [index] = group.inputs;
+          const values = JSON.parse(taskArguments[names[index]]);
+          if (!Array.isArray(values)) throw new Error(`Argument --${names[index]} is not a JSON array`);
+          const type = encryptedType(fn.inputs[index])!;
+          const encrypted = await Promise.all(
+            values.map((value) =>
+              encryptValues(hre, deployment.address, signer.address, [{ type, value: String(value) }]),
+            ),
+          );
+          args[index] = encrypted.map((input) => input.handles[0]);
+          args[group.proof] = encrypted.map((input) => input.inputProof);
+          continue;
+        }
+        const encrypted = await encryptValues(
+          hre,
+          deployment.address,
+          signer.address,
+          group.inputs.map((index) => ({
+            type: encryptedType(fn.inputs[index])!,
+            value: taskArguments[names[index]],
+          })),
+        );
+        group.inputs.forEach((index, i) => (args[index] = encrypted.handles[i]));
+        args[group.proof] = encrypted.inputProof;
+      }
+
+      const method = contract.connect(signer).getFunction(signature(fn, "abi"));
+
+      if (!isView) {
+        const tx = await method.send(...args);
+        console.log(`Wait for tx:${tx.hash}...`);
+
+        const receipt = await tx.wait();
+        console.log(`tx:${tx.hash} status=${receipt?.status}`);
+        return;
+      }
+
+      const result = await method.staticCall(...args);
+      const outputs: unknown[] = fn.outputs.length === 1 ? [result] : [...result];
+      for (const [i, output] of fn.outputs.entries()) {
+        const label = output.name || (fn.outputs.length === 1 ? fn.name : `${fn.name}[${i}]`);
+        const type = encryptedType(output);
+        if (!type) {
+          console.log(`${label}: ${outputs[i]}`);
+          continue;
+        }
+        const handles = output.type.endsWith("]") ? (outputs[i] as string[]) : [outputs[i] as string];
+        for (const [j, handle] of handles.entries()) {
+          const name = output.type.endsWith("]") ? `${label}[${j}]` : label;
+          const clear = await decryptHandle(hre, type, handle, deployment.address, signer).catch(
+            (error) => `cannot decrypt (${error instanceof Error ? error.message : String(error)})`,
+          );
+          console.log(`Encrypted ${name}: ${handle}`);
+          console.log(`Clear ${name}    : ${clear}`);
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Every deployable contract compiled into artifacts/contracts, with its ABI
+ */
+function compiledContracts(artifactsDir: string): { contractName: string; abi: AbiFunction[] }[] {
+  if (!fs.existsSync(artifactsDir)) return [];
+  const contracts: { contractName: string; abi: AbiFunction[] }[] = [];
+  for (const entry of fs.readdirSync(artifactsDir, { withFileTypes: true })) {
+    const entryPath = path.join(artifactsDir, entry.name);
+    if (entry.isDirectory()) {
+      contracts.push(...compiledContracts(entryPath));
+    } else if (entry.name.endsWith(".json") && !entry.name.endsWith(".dbg.json")) {
+      const artifact = JSON.parse(fs.readFileSync(entryPath, "utf-8"));
+      if (artifact.bytecode && artifact.bytecode !== "0x") {
+        contracts.push({ contractName: artifact.contractName, abi: artifact.abi });
+      }
+    }
+  }
+  return contracts;
+}
+
+for (const { contractName, abi } of compiledContracts(path.join(__dirname, "..", "artifacts", "contracts"))) {
+  registerContractTasks(contractName, abi);
+}
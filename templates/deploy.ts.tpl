@@ -0,0 +1,23 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  const deployed{{CONTRACT_NAME}} = await deploy("{{CONTRACT_NAME}}", {
+    from: deployer,
+{{#if DEPLOY_ARGS}}
+    args: [{{DEPLOY_ARGS}}],
+{{/if}}
+    log: true,
+  });
+
+  console.log(`{{CONTRACT_NAME}} contract: `, deployed{{CONTRACT_NAME}}.address);
+};
+export default func;
+func.id = "{{DEPLOY_ID}}"; // id required to prevent reexecution
+func.tags = [{{DEPLOY_TAGS}}];
+{{#if DEPLOY_DEPENDENCIES}}
+func.dependencies = [{{DEPLOY_DEPENDENCIES}}];
+{{/if}}
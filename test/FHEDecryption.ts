@@ -378,6 +378,7 @@ describe("FHEDecryption", function () {
       expect(decryptedCounter2).to.eq(2);
     });
 
+    // @docs isAuthorized
     it("should authorize user to decrypt counter", async function () {
       const tx1 = await contract.connect(signers.alice).incrementCounters();
       await tx1.wait();
@@ -426,6 +427,7 @@ describe("FHEDecryption", function () {
   });
 
   describe("Helper Functions", function () {
+    // @docs hasPrivateData
     it("should correctly report hasPrivateData status", async function () {
       expect(await contract.connect(signers.alice).hasPrivateData()).to.be.false;
 
@@ -439,6 +441,7 @@ describe("FHEDecryption", function () {
       expect(await contract.connect(signers.alice).hasPrivateData()).to.be.true;
     });
 
+    // @docs canAccessResult
     it("should correctly report canAccessResult status", async function () {
       expect(await contract.connect(signers.alice).canAccessResult()).to.be.false;
 
@@ -464,6 +467,7 @@ describe("FHEDecryption", function () {
       expect(await contract.connect(signers.alice).canAccessResult()).to.be.true;
     });
 
+    // @docs getResultCounter
     it("should return correct result counter", async function () {
       expect(await contract.getResultCounter()).to.eq(0);
 
@@ -0,0 +1,116 @@
+import { expect } from "chai";
+import { mergeLines, unifiedDiff } from "../../scripts/lib/diff";
+
+const numbered = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+describe("diff", function () {
+  describe("unifiedDiff", function () {
+    it("returns an empty string for identical texts", function () {
+      expect(unifiedDiff("a\nb\n", "a\nb\n", "a/file", "b/file")).to.eq("");
+    });
+
+    it("shows a change with three lines of context", function () {
+      const oldLines = numbered(10);
+      const newLines = [...oldLines];
+      newLines[4] = "line five";
+      expect(unifiedDiff(oldLines.join("\n") + "\n", newLines.join("\n") + "\n", "a/file", "b/file")).to.eq(
+        [
+          "--- a/file",
+          "+++ b/file",
+          "@@ -2,7 +2,7 @@",
+          " line 2",
+          " line 3",
+          " line 4",
+          "-line 5",
+          "+line five",
+          " line 6",
+          " line 7",
+          " line 8",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("splits changes further apart than twice the context into hunks", function () {
+      const oldLines = numbered(20);
+      const newLines = oldLines.filter((line) => line !== "line 2");
+      newLines.splice(17, 0, "inserted");
+      const diff = unifiedDiff(oldLines.join("\n") + "\n", newLines.join("\n") + "\n", "a/file", "b/file", 1);
+      expect(diff.split("\n").filter((line) => line.startsWith("@@"))).to.deep.eq([
+        "@@ -1,3 +1,2 @@",
+        "@@ -18,2 +17,3 @@",
+      ]);
+      expect(diff).to.contain("\n line 1\n-line 2\n line 3\n");
+      expect(diff).to.contain("\n line 18\n+inserted\n line 19\n");
+    });
+
+    it("numbers an empty side from line 0", function () {
+      expect(unifiedDiff("", "a\nb\n", "/dev/null", "b/file")).to.eq(
+        "--- /dev/null\n+++ b/file\n@@ -0,0 +1,2 @@\n+a\n+b\n",
+      );
+      expect(unifiedDiff("a\n", "", "a/file", "/dev/null")).to.eq("--- a/file\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-a\n");
+    });
+
+    it("marks a last line without a newline", function () {
+      expect(unifiedDiff("a\nb\n", "a\nb", "a/file", "b/file")).to.eq(
+        "--- a/file\n+++ b/file\n@@ -1,2 +1,2 @@\n a\n-b\n+b\n\\ No newline at end of file\n",
+      );
+      expect(unifiedDiff("a\nb", "a\nc\n", "a/file", "b/file")).to.eq(
+        "--- a/file\n+++ b/file\n@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+c\n",
+      );
+    });
+  });
+
+  describe("mergeLines", function () {
+    const base = numbered(10).join("\n") + "\n";
+    // Replace 1-based lines of text
+    const edit = (text: string, changes: Record<number, string>) =>
+      text
+        .split("\n")
+        .map((line, i) => changes[i + 1] ?? line)
+        .join("\n");
+
+    it("combines changes to different lines", function () {
+      const local = edit(base, { 2: "local 2" });
+      const upstream = edit(base, { 8: "upstream 8" });
+      expect(mergeLines(base, local, upstream)).to.deep.eq({
+        content: edit(base, { 2: "local 2", 8: "upstream 8" }),
+        conflicts: [],
+      });
+    });
+
+    it("combines insertions and deletions", function () {
+      const local = base.replace("line 3\n", "");
+      const upstream = base.replace("line 9\n", "line 9\nline 9b\n");
+      expect(mergeLines(base, local, upstream).content).to.eq(
+        base.replace("line 3\n", "").replace("line 9\n", "line 9\nline 9b\n"),
+      );
+    });
+
+    it("takes a change made identically on both sides once", function () {
+      const both = edit(base, { 5: "same" });
+      expect(mergeLines(base, both, edit(both, { 9: "upstream 9" }))).to.deep.eq({
+        content: edit(base, { 5: "same", 9: "upstream 9" }),
+        conflicts: [],
+      });
+    });
+
+    it("reports overlapping changes as conflicts with their base lines", function () {
+      const local = edit(base, { 2: "local 2", 5: "local 5", 6: "local 6" });
+      const upstream = edit(base, { 2: "local 2", 6: "upstream 6" });
+      expect(mergeLines(base, local, upstream)).to.deep.eq({ conflicts: [[5, 6]] });
+    });
+
+    it("reports changes to adjacent lines as a conflict", function () {
+      expect(mergeLines(base, edit(base, { 4: "local 4" }), edit(base, { 5: "upstream 5" })).conflicts).to.deep.eq([
+        [4, 5],
+      ]);
+    });
+
+    it("treats a missing newline at end of file as a change", function () {
+      expect(mergeLines(base, base.slice(0, -1), edit(base, { 1: "upstream 1" })).content).to.eq(
+        edit(base, { 1: "upstream 1" }).slice(0, -1),
+      );
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createTranslator, listLocales, loadCatalogue } from "../../scripts/lib/i18n";
+
+describe("i18n", function () {
+  let baseDir: string;
+
+  function writeCatalogue(locale: string, catalogue: unknown) {
+    fs.writeFileSync(path.join(baseDir, "locales", `${locale}.json`), JSON.stringify(catalogue));
+  }
+
+  beforeEach(function () {
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), "i18n-"));
+    fs.mkdirSync(path.join(baseDir, "locales"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  describe("loadCatalogue", function () {
+    it("loads the strings and example descriptions of a locale", function () {
+      writeCatalogue("fr", { strings: { Examples: "Exemples" }, examples: { counter: "Compteur chiffré" } });
+      expect(loadCatalogue(baseDir, "fr")).to.deep.eq({
+        strings: { Examples: "Exemples" },
+        examples: { counter: "Compteur chiffré" },
+      });
+      expect(listLocales(baseDir)).to.deep.eq(["fr"]);
+    });
+
+    it("defaults missing sections to empty", function () {
+      writeCatalogue("fr", { strings: { Examples: "Exemples" } });
+      expect(loadCatalogue(baseDir, "fr").examples).to.deep.eq({});
+    });
+
+    it("rejects an unknown locale", function () {
+      expect(() => loadCatalogue(baseDir, "xx")).to.throw(
+        `No translation catalogue for locale "xx" (expected locales/xx.json)`,
+      );
+    });
+
+    it("rejects entries that are not strings", function () {
+      writeCatalogue("fr", { strings: { Examples: 1 } });
+      expect(() => loadCatalogue(baseDir, "fr")).to.throw(`locales/fr.json: "strings" must map strings to strings`);
+    });
+
+    it("loads the repo's Japanese catalogue", function () {
+      const catalogue = loadCatalogue(path.join(__dirname, "..", ".."), "ja");
+      expect(catalogue.strings["Examples"]).to.eq("サンプル");
+    });
+  });
+
+  describe("createTranslator", function () {
+    it("falls back to English for a missing key and reports it", function () {
+      writeCatalogue("fr", { strings: { "{count} examples": "{count} exemples" }, examples: {} });
+      const { t, description, missing } = createTranslator(loadCatalogue(baseDir, "fr"));
+
+      expect(t("{count} examples", { count: "3" })).to.eq("3 exemples");
+      expect(t("Concepts")).to.eq("Concepts");
+      expect(description({ name: "counter", description: "Encrypted counter" })).to.eq("Encrypted counter");
+      expect([...missing]).to.deep.eq(["Concepts", "description of counter"]);
+    });
+
+    it("returns strings as written for the default locale", function () {
+      const { t, missing } = createTranslator();
+      expect(t("Hello {name}", { name: "Alice" })).to.eq("Hello Alice");
+      expect(missing.size).to.eq(0);
+    });
+  });
+});
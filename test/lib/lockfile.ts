@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import { FileStatus, HubLock, hashContent, planUpgrade } from "../../scripts/lib/lockfile";
+
+const base: Record<string, string> = {
+  "unchanged.ts": "a\nb\nc\n",
+  "upstream-only.ts": "a\nb\nc\n",
+  "local-only.ts": "a\nb\nc\n",
+  "both-merge.ts": "1\n2\n3\n4\n5\n6\n7\n8\n9\n",
+  "both-conflict.ts": "a\nb\nc\n",
+  "both-same.ts": "a\nb\nc\n",
+  "removed.ts": "a\n",
+  "removed-edited.ts": "a\n",
+  "test/Failed.ts": "a\n",
+};
+
+const local: Record<string, string> = {
+  ...base,
+  "local-only.ts": "a\nlocal\nc\n",
+  "both-merge.ts": "1\nlocal\n3\n4\n5\n6\n7\n8\n9\n",
+  "both-conflict.ts": "a\nlocal\nc\n",
+  "both-same.ts": "a\nsame\nc\n",
+  "removed-edited.ts": "a\nlocal\n",
+};
+
+const upstream: Record<string, string> = {
+  "unchanged.ts": base["unchanged.ts"],
+  "upstream-only.ts": "a\nupstream\nc\n",
+  "local-only.ts": base["local-only.ts"],
+  "both-merge.ts": "1\n2\n3\n4\n5\n6\n7\nupstream\n9\n",
+  "both-conflict.ts": "a\nupstream\nc\n",
+  "both-same.ts": "a\nsame\nc\n",
+  "added.ts": "new\n",
+};
+
+function lockFor(files: Record<string, string>, withBase = true): HubLock {
+  return {
+    hubVersion: "0.3.0",
+    projectName: "project",
+    examples: ["counter"],
+    packageManager: "npm",
+    networks: ["hardhat"],
+    files: Object.fromEntries(Object.entries(files).map(([file, content]) => [file, hashContent(content)])),
+    base: withBase ? files : undefined,
+  };
+}
+
+function actions(statuses: FileStatus[]): Record<string, string> {
+  return Object.fromEntries(statuses.map((status) => [status.path, status.action]));
+}
+
+describe("lockfile", function () {
+  describe("planUpgrade", function () {
+    const statuses = planUpgrade(lockFor(base), upstream, (file) => local[file], ["test/Failed.ts"]);
+    const byPath = (file: string) => statuses.find((status) => status.path === file)!;
+
+    it("plans an action for every file", function () {
+      expect(actions(statuses)).to.deep.eq({
+        "added.ts": "add",
+        "both-conflict.ts": "conflict",
+        "both-merge.ts": "merge",
+        "both-same.ts": "in-sync",
+        "local-only.ts": "none",
+        "removed-edited.ts": "conflict",
+        "removed.ts": "remove",
+        "test/Failed.ts": "none",
+        "unchanged.ts": "none",
+        "upstream-only.ts": "update",
+      });
+    });
+
+    it("flags upstream and local changes", function () {
+      expect(byPath("unchanged.ts")).to.include({ upstreamChanged: false, locallyModified: false });
+      expect(byPath("upstream-only.ts")).to.include({ upstreamChanged: true, locallyModified: false });
+      expect(byPath("local-only.ts")).to.include({ upstreamChanged: false, locallyModified: true });
+      expect(byPath("both-merge.ts")).to.include({ upstreamChanged: true, locallyModified: true });
+    });
+
+    it("merges changes to different lines of a file changed on both sides", function () {
+      expect(byPath("both-merge.ts").merged).to.eq("1\nlocal\n3\n4\n5\n6\n7\nupstream\n9\n");
+    });
+
+    it("reports the base lines both sides changed as conflicts", function () {
+      expect(byPath("both-conflict.ts").conflicts).to.deep.eq([[2, 2]]);
+      expect(byPath("removed-edited.ts").conflicts).to.deep.eq([]);
+    });
+
+    it("never removes a file the hub failed to generate", function () {
+      expect(byPath("test/Failed.ts")).to.include({ action: "none", upstreamChanged: false });
+    });
+
+    it("reports a conflict for a file deleted locally and changed upstream", function () {
+      const deleted = planUpgrade(lockFor(base), upstream, (file) =>
+        file === "upstream-only.ts" ? undefined : local[file],
+      );
+      expect(actions(deleted)["upstream-only.ts"]).to.eq("conflict");
+    });
+
+    it("reports a conflict without merging when the lockfile has no base content", function () {
+      const withoutBase = planUpgrade(lockFor(base, false), upstream, (file) => local[file]);
+      expect(withoutBase.find((status) => status.path === "both-merge.ts")).to.deep.include({
+        action: "conflict",
+        conflicts: [],
+      });
+      expect(actions(withoutBase)["upstream-only.ts"]).to.eq("update");
+    });
+  });
+});
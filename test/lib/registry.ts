@@ -0,0 +1,128 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { loadExampleRegistry, validateManifest } from "../../scripts/lib/registry";
+
+const contractsDir = path.join(__dirname, "..", "..", "contracts");
+
+const validManifest = {
+  name: "counter",
+  description: "A simple encrypted counter",
+  category: "basic",
+  contractFile: "FHECounter.sol",
+  concepts: ["euint32", "FHE.add"],
+};
+
+describe("registry", function () {
+  describe("validateManifest", function () {
+    it("accepts a valid manifest", function () {
+      expect(validateManifest(validManifest, contractsDir)).to.deep.eq([]);
+    });
+
+    it("rejects a manifest that is not an object", function () {
+      for (const manifest of [null, "counter", [validManifest]]) {
+        expect(validateManifest(manifest, contractsDir)).to.deep.eq(["manifest must be a JSON object"]);
+      }
+    });
+
+    it("reports every missing required field", function () {
+      expect(validateManifest({}, contractsDir)).to.have.members([
+        `"name" must be a non-empty string`,
+        `"description" must be a non-empty string`,
+        `"contractFile" must be a non-empty string`,
+        `"category" must be one of: basic, encryption, access-control, advanced, anti-pattern (got undefined)`,
+        `"concepts" must be an array of strings`,
+      ]);
+    });
+
+    it("rejects blank strings and an unknown category", function () {
+      const problems = validateManifest({ ...validManifest, name: "  ", category: "misc" }, contractsDir);
+      expect(problems).to.deep.eq([
+        `"name" must be a non-empty string`,
+        `"category" must be one of: basic, encryption, access-control, advanced, anti-pattern (got "misc")`,
+      ]);
+    });
+
+    it("rejects concepts that are not strings", function () {
+      expect(validateManifest({ ...validManifest, concepts: ["euint32", 1] }, contractsDir)).to.deep.eq([
+        `"concepts" must be an array of strings`,
+      ]);
+    });
+
+    it("rejects unknown fields", function () {
+      expect(validateManifest({ ...validManifest, tags: [] }, contractsDir)).to.deep.eq([`unknown field "tags"`]);
+    });
+
+    it("checks the contract file exists and is a .sol file", function () {
+      expect(validateManifest({ ...validManifest, contractFile: "FHECounter.ts" }, contractsDir)).to.deep.eq([
+        `"contractFile" must be a .sol file (got "FHECounter.ts")`,
+      ]);
+      expect(validateManifest({ ...validManifest, contractFile: "Missing.sol" }, contractsDir)).to.deep.eq([
+        `"contractFile" not found: contracts/Missing.sol`,
+      ]);
+    });
+
+    it("checks constructorArgs values and count against the constructor", function () {
+      const auction = { ...validManifest, contractFile: "BlindAuction.sol" };
+      expect(validateManifest({ ...auction, constructorArgs: [3600] }, contractsDir)).to.deep.eq([]);
+      expect(
+        validateManifest({ ...auction, constructorArgs: [{ deployment: "FHECounter" }] }, contractsDir),
+      ).to.deep.eq([]);
+      expect(validateManifest({ ...auction, constructorArgs: [[3600]] }, contractsDir)).to.deep.eq([
+        `"constructorArgs" must be an array of strings, numbers, booleans or { "deployment": "<Contract>" }`,
+      ]);
+      expect(
+        validateManifest({ ...auction, constructorArgs: [{ deployment: "A", extra: 1 }] }, contractsDir),
+      ).to.have.length(1);
+      expect(validateManifest(auction, contractsDir)[0]).to.match(
+        /^"constructorArgs" has 0 value\(s\) but constructor\(/,
+      );
+      expect(validateManifest({ ...validManifest, constructorArgs: [1] }, contractsDir)).to.deep.eq([
+        `"constructorArgs" has 1 value(s) but constructor() takes 0`,
+      ]);
+    });
+  });
+
+  describe("loadExampleRegistry", function () {
+    let baseDir: string;
+
+    function writeExample(dir: string, manifest: unknown) {
+      fs.mkdirSync(path.join(baseDir, "examples", dir), { recursive: true });
+      fs.writeFileSync(path.join(baseDir, "examples", dir, "example.json"), JSON.stringify(manifest));
+    }
+
+    beforeEach(function () {
+      baseDir = fs.mkdtempSync(path.join(os.tmpdir(), "registry-"));
+      fs.mkdirSync(path.join(baseDir, "contracts"));
+      fs.copyFileSync(path.join(contractsDir, "FHECounter.sol"), path.join(baseDir, "contracts", "FHECounter.sol"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(baseDir, { recursive: true, force: true });
+    });
+
+    it("loads valid manifests", function () {
+      writeExample("counter", validManifest);
+      expect(loadExampleRegistry(baseDir)).to.deep.eq([validManifest]);
+    });
+
+    it("rejects duplicate example names", function () {
+      writeExample("counter", validManifest);
+      writeExample("counter-copy", validManifest);
+      expect(() => loadExampleRegistry(baseDir)).to.throw(
+        `examples/counter-copy/example.json: duplicate example name "counter" (already defined in examples/counter/example.json)`,
+      );
+    });
+
+    it("lists the problems of every invalid manifest", function () {
+      writeExample("counter", { ...validManifest, category: "misc" });
+      fs.mkdirSync(path.join(baseDir, "examples", "empty"));
+      expect(() => loadExampleRegistry(baseDir))
+        .to.throw(Error)
+        .with.property("message")
+        .that.contains(`examples/counter/example.json: "category" must be one of`)
+        .and.contains("examples/empty/example.json: missing manifest");
+    });
+  });
+});
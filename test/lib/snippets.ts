@@ -0,0 +1,111 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import { matchTestCases, parseTestCases, TestCase } from "../../scripts/lib/snippets";
+
+const source = `describe("Vault", function () {
+  it("deposits", async function () {
+    const input = await fhevm.createEncryptedInput(address, alice.address).add32(5).encrypt();
+    await (await vault.deposit(input.handles[0], input.inputProof)).wait();
+    expect(await vault.getBalance()).to.not.eq(ethers.ZeroHash);
+  });
+
+  // @docs getBalance
+  it('reads an empty balance', async function () {
+    expect(await vault.getBalance()).to.eq(ethers.ZeroHash);
+  });
+
+  it("rejects a withdrawal by a stranger", async function () {
+    // @docs withdraw, getOwner
+    await expect(vault.connect(bob).withdraw()).to.be.revertedWith("Not owner");
+  });
+
+  it("withdraws", async function () {
+    if (true) {
+      await vault.withdraw();
+    }
+  });
+});
+`;
+
+const caseNamed = (cases: TestCase[], title: string) => cases.find((c) => c.title === title)!;
+
+describe("snippets", function () {
+  describe("parseTestCases", function () {
+    const cases = parseTestCases(source);
+
+    it("finds every it(...) block in order", function () {
+      expect(cases.map((c) => c.title)).to.deep.eq([
+        "deposits",
+        "reads an empty balance",
+        "rejects a withdrawal by a stranger",
+        "withdraws",
+      ]);
+    });
+
+    it("keeps the whole block, dedented, including nested braces", function () {
+      expect(caseNamed(cases, "withdraws").code).to.eq(`it("withdraws", async function () {
+  if (true) {
+    await vault.withdraw();
+  }
+});`);
+    });
+
+    it("lists the methods called in the block", function () {
+      expect(caseNamed(cases, "deposits").calls).to.include.members([
+        "createEncryptedInput",
+        "add32",
+        "deposit",
+        "getBalance",
+      ]);
+    });
+
+    it("reads @docs markers above the block and inside it", function () {
+      expect(caseNamed(cases, "deposits").docsFor).to.deep.eq([]);
+      expect(caseNamed(cases, "reads an empty balance").docsFor).to.deep.eq(["getBalance"]);
+      expect(caseNamed(cases, "rejects a withdrawal by a stranger").docsFor).to.deep.eq(["withdraw", "getOwner"]);
+    });
+
+    it("reads the markers of a repo test file", function () {
+      const decryption = fs.readFileSync(path.join(__dirname, "..", "FHEDecryption.ts"), "utf-8");
+      const marked = parseTestCases(decryption).filter((c) => c.docsFor.length > 0);
+      expect(marked.flatMap((c) => c.docsFor)).to.include.members(["isAuthorized", "hasPrivateData"]);
+    });
+  });
+
+  describe("matchTestCases", function () {
+    const cases = parseTestCases(source);
+    const functions = [
+      { name: "deposit", stateMutability: "nonpayable" },
+      { name: "getBalance", stateMutability: "view" },
+      { name: "withdraw", stateMutability: "nonpayable" },
+      { name: "getOwner", stateMutability: "view" },
+      { name: "unused", stateMutability: "nonpayable" },
+    ];
+    const titles = (name: string) =>
+      matchTestCases(cases, functions)
+        .get(name)
+        ?.map((c) => c.title);
+
+    it("falls back to the first test calling an unmarked function", function () {
+      expect(titles("deposit")).to.deep.eq(["deposits"]);
+    });
+
+    it("prefers every marked test over tests calling the function", function () {
+      expect(titles("getBalance")).to.deep.eq(["reads an empty balance"]);
+      expect(titles("withdraw")).to.deep.eq(["rejects a withdrawal by a stranger"]);
+      expect(titles("getOwner")).to.deep.eq(["rejects a withdrawal by a stranger"]);
+    });
+
+    it("leaves out functions no test calls", function () {
+      expect(matchTestCases(cases, functions).has("unused")).to.eq(false);
+    });
+
+    it("prefers succeeding tests, and read-only tests for view functions", function () {
+      const unmarked = cases.map((c) => ({ ...c, docsFor: [] }));
+      const matches = matchTestCases(unmarked, functions);
+      expect(matches.get("withdraw")!.map((c) => c.title)).to.deep.eq(["withdraws"]);
+      expect(matches.get("getBalance")!.map((c) => c.title)).to.deep.eq(["reads an empty balance"]);
+    });
+  });
+});
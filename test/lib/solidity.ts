@@ -0,0 +1,128 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import { parseAclGrants, parseFheCalls } from "../../scripts/lib/solidity";
+
+const readContract = (file: string) => fs.readFileSync(path.join(__dirname, "..", "..", "contracts", file), "utf-8");
+
+describe("solidity", function () {
+  describe("parseFheCalls", function () {
+    it("lists the calls of FHECounter in order with their operand type", function () {
+      expect(parseFheCalls(readContract("FHECounter.sol"))).to.deep.eq(
+        ["fromExternal", "add", "allowThis", "allow", "fromExternal", "sub", "allowThis", "allow"].map((name) => ({
+          name,
+          operandType: "euint32",
+        })),
+      );
+    });
+
+    it("infers types from mappings, casts, ebool locals and select", function () {
+      const calls = parseFheCalls(readContract("EncryptedERC20.sol"));
+      expect(calls[0]).to.deep.eq({ name: "asEuint64", operandType: "euint64" });
+      expect(calls.find((call) => call.name === "and")).to.deep.eq({ name: "and", operandType: "ebool" });
+      expect(calls.filter((call) => call.name === "select").map((call) => call.operandType)).to.deep.eq([
+        "euint64",
+        "euint64",
+      ]);
+      expect(calls.every((call) => call.operandType !== undefined)).to.eq(true);
+    });
+
+    it("types a comparison by its operands and the ACL calls on its result as ebool", function () {
+      const calls = parseFheCalls(readContract("FHEComparisons.sol"));
+      const eq = calls.findIndex((call) => call.name === "eq");
+      expect(calls.slice(eq, eq + 3)).to.deep.eq([
+        { name: "eq", operandType: "euint32" },
+        { name: "allowThis", operandType: "ebool" },
+        { name: "allow", operandType: "ebool" },
+      ]);
+    });
+
+    it("ignores calls in comments and leaves unknown operand types out", function () {
+      const source = `
+        contract C {
+          // FHE.mul(a, b);
+          /* FHE.div(a, b); */
+          function f(uint32 x) external { FHE.neg(x); }
+        }`;
+      expect(parseFheCalls(source)).to.deep.eq([{ name: "neg" }]);
+    });
+  });
+
+  describe("parseAclGrants", function () {
+    it("lists the grants of each function of FHECounter", function () {
+      const counterGrants = [
+        { call: "allowThis", handle: "_count", grantee: "address(this)" },
+        { call: "allow", handle: "_count", grantee: "msg.sender" },
+      ];
+      expect([...parseAclGrants(readContract("FHECounter.sol"))]).to.deep.eq([
+        ["increment", counterGrants],
+        ["decrement", counterGrants],
+      ]);
+    });
+
+    it("keeps mapping handles and grantees as written, including in the constructor", function () {
+      const grants = parseAclGrants(readContract("EncryptedERC20.sol"));
+      expect([...grants.keys()]).to.deep.eq(["constructor", "transfer", "approve", "transferFrom"]);
+      expect(grants.get("approve")).to.deep.eq([
+        { call: "allowThis", handle: "amount", grantee: "address(this)" },
+        { call: "allow", handle: "amount", grantee: "msg.sender" },
+        { call: "allow", handle: "amount", grantee: "spender" },
+      ]);
+      expect(grants.get("transferFrom")!.slice(-2)).to.deep.eq([
+        { call: "allow", handle: "_allowances[from][msg.sender]", grantee: "from" },
+        { call: "allow", handle: "_allowances[from][msg.sender]", grantee: "msg.sender" },
+      ]);
+    });
+
+    it("includes the grants of internal functions at the point they are called", function () {
+      const source = `
+        contract C {
+          function deposit(euint32 amount) external {
+            FHE.allowTransient(amount, msg.sender);
+            _store(amount);
+            FHE.allow(_total, owner);
+          }
+          function _store(euint32 amount) internal {
+            _total = FHE.add(_total, amount);
+            FHE.allowThis(_total);
+            _store(amount);
+          }
+        }`;
+      expect(parseAclGrants(source).get("deposit")).to.deep.eq([
+        { call: "allowTransient", handle: "amount", grantee: "msg.sender" },
+        { call: "allowThis", handle: "_total", grantee: "address(this)" },
+        { call: "allow", handle: "_total", grantee: "owner" },
+      ]);
+    });
+
+    it("follows an internal function each time it is called", function () {
+      const source = `
+        contract C {
+          function transfer(address to, euint64 amount) external {
+            _debit(msg.sender, amount);
+            _credit(to, amount);
+          }
+          function _debit(address account, euint64 amount) internal {
+            _balances[account] = FHE.sub(_balances[account], amount);
+            _grant(account);
+          }
+          function _credit(address account, euint64 amount) internal {
+            _balances[account] = FHE.add(_balances[account], amount);
+            _grant(account);
+          }
+          function _grant(address account) internal {
+            FHE.allowThis(_balances[account]);
+            FHE.allow(_balances[account], account);
+          }
+        }`;
+      const grant = [
+        { call: "allowThis", handle: "_balances[account]", grantee: "address(this)" },
+        { call: "allow", handle: "_balances[account]", grantee: "account" },
+      ];
+      const grants = parseAclGrants(source);
+      expect(grants.get("transfer")).to.deep.eq([...grant, ...grant]);
+      expect(grants.get("_debit")).to.deep.eq(grant);
+      expect(grants.get("_credit")).to.deep.eq(grant);
+    });
+  });
+});
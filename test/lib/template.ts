@@ -0,0 +1,36 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import { renderTemplate, renderTemplateFile } from "../../scripts/lib/template";
+
+const baseDir = path.join(__dirname, "..", "..");
+
+describe("template", function () {
+  describe("renderTemplate", function () {
+    it("substitutes variables and keeps or drops if blocks", function () {
+      const template = "a={{A}}\n{{#if ON}}\non\n{{/if}}\n{{#if OFF}}\noff\n{{/if}}\nend\n";
+      expect(renderTemplate(template, { A: "1", ON: true, OFF: false })).to.eq("a=1\non\nend\n");
+    });
+
+    it("throws on unknown variables", function () {
+      expect(() => renderTemplate("{{A}}", {})).to.throw("Missing value for template variable {{A}}");
+      expect(() => renderTemplate("{{#if A}}\n{{/if}}\n", {})).to.throw("Unknown template variable in {{#if A}}");
+    });
+  });
+
+  describe("hardhat.config.ts.tpl", function () {
+    // The template is the hub config with templated task imports and networks: rendering it with the hub's imports
+    // and every network must give back hardhat.config.ts, so changes to one are made to the other
+    it("matches the hub hardhat.config.ts outside the templated sections", function () {
+      const hubConfig = fs.readFileSync(path.join(baseDir, "hardhat.config.ts"), "utf-8");
+      const taskImports = hubConfig.split("\n").filter((line) => /^import "\.\/tasks\/\w+";$/.test(line));
+
+      const rendered = renderTemplateFile(baseDir, "hardhat.config.ts", {
+        TASK_IMPORTS: taskImports.join("\n"),
+        NETWORK_ANVIL: true,
+        NETWORK_SEPOLIA: true,
+      });
+      expect(rendered).to.eq(hubConfig);
+    });
+  });
+});
@@ -0,0 +1,274 @@
+import { expect } from "chai";
+import {
+  AbiFragment,
+  AbiParameter,
+  CallableFunction,
+  expectedClearValue,
+  findHandleGetters,
+  findWriter,
+  generateCall,
+  generateFunctionTest,
+  generateTestSuite,
+} from "../../scripts/lib/testgen";
+
+const param = (name: string, type: string, internalType = type): AbiParameter => ({ name, type, internalType });
+const external = (name: string, encrypted: string) => param(name, "bytes32", `external${encrypted}`);
+
+const source = `contract Calculator {
+  euint32 private _result;
+  ebool private _flag;
+
+  function getResult() external view returns (euint32) {
+    return _result;
+  }
+
+  function getFlag() external view returns (ebool) {
+    return _flag;
+  }
+
+  function reset() external {
+    _result = FHE.asEuint32(0);
+  }
+
+  function add(externalEuint32 a, bytes calldata proofA, externalEuint32 b, bytes calldata proofB) external {
+    euint32 encA = FHE.fromExternal(a, proofA);
+    euint32 encB = FHE.fromExternal(b, proofB);
+    _result = FHE.add(encA, encB);
+    FHE.allowThis(_result);
+    FHE.allow(_result, msg.sender);
+  }
+
+  function setFlag(externalEbool flag, bytes calldata proof) external {
+    _flag = FHE.fromExternal(flag, proof);
+  }
+}`;
+
+const abi: AbiFragment[] = [
+  { type: "constructor", inputs: [] },
+  {
+    type: "function",
+    name: "add",
+    stateMutability: "nonpayable",
+    inputs: [external("a", "Euint32"), param("proofA", "bytes"), external("b", "Euint32"), param("proofB", "bytes")],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "getFlag",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [param("", "bytes32", "ebool")],
+  },
+  {
+    type: "function",
+    name: "getResult",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [param("", "bytes32", "euint32")],
+  },
+  { type: "function", name: "reset", stateMutability: "nonpayable", inputs: [], outputs: [] },
+  {
+    type: "function",
+    name: "setFlag",
+    stateMutability: "nonpayable",
+    inputs: [external("flag", "Ebool"), param("proof", "bytes")],
+    outputs: [],
+  },
+];
+
+const callable = (fragment: AbiFragment): CallableFunction => ({ fragment, accessor: `.${fragment.name}` });
+const callables = abi.filter((f) => f.type === "function").map(callable);
+const callableNamed = (name: string) => callables.find((c) => c.fragment.name === name)!;
+
+describe("testgen", function () {
+  describe("generateCall", function () {
+    it("picks the createEncryptedInput() builder of each external input type", function () {
+      const types = ["Euint8", "Euint16", "Euint32", "Euint64", "Euint128", "Euint256", "Ebool", "Eaddress"];
+      const fragment: AbiFragment = {
+        type: "function",
+        name: "store",
+        inputs: [...types.map((type, i) => external(`v${i}`, type)), param("proof", "bytes")],
+      };
+      const { setup, args } = generateCall(callable(fragment), "store");
+      const chain = setup.split("\n").filter((line) => line.trim().startsWith(".add"));
+      expect(chain.map((line) => line.trim())).to.deep.eq([
+        ".add8(42)",
+        ".add16(7)",
+        ".add32(3)",
+        ".add64(2)",
+        ".add128(1)",
+        ".add256(42)",
+        ".addBool(true)",
+        ".addAddress(signers.bob.address)",
+      ]);
+      expect(setup.match(/createEncryptedInput\(storeContractAddress, signers\.alice\.address\)/g)).to.have.length(1);
+      expect(args.at(-1)).to.eq("encryptedInputA.inputProof");
+      expect(args[7]).to.eq("encryptedInputA.handles[7]");
+    });
+
+    it("closes an encrypted input at each proof and passes sample plain values", function () {
+      const generated = generateCall(callableNamed("add"), "calculator");
+      expect(generated.args).to.deep.eq([
+        "encryptedInputA.handles[0]",
+        "encryptedInputA.inputProof",
+        "encryptedInputB.handles[0]",
+        "encryptedInputB.inputProof",
+      ]);
+      expect(generated.call).to.eq(`calculatorContract.connect(signers.alice).add(${generated.args.join(", ")})`);
+      expect([...generated.clearValues]).to.deep.eq([
+        ["a", 42n],
+        ["b", 7n],
+      ]);
+
+      const plain = generateCall(
+        callable({ type: "function", name: "f", inputs: [param("to", "address"), param("amount", "uint64")] }),
+        "c",
+      );
+      expect(plain.args).to.deep.eq(["signers.bob.address", "1"]);
+      expect(plain.setup).to.eq("");
+    });
+
+    it("letters encrypted inputs from the first group it is given", function () {
+      expect(generateCall(callableNamed("setFlag"), "calculator", 2).args[0]).to.eq("encryptedInputC.handles[0]");
+    });
+
+    it("reports params it cannot provide", function () {
+      const fragment: AbiFragment = { type: "function", name: "f", inputs: [param("order", "tuple", "struct Order")] };
+      expect(generateCall(callable(fragment), "c").unsupported).to.eq("order: Order");
+    });
+  });
+
+  describe("expectedClearValue", function () {
+    const clearValues = new Map([
+      ["a", 42n],
+      ["b", 7n],
+    ]);
+
+    it("evaluates a single FHE operation on decoded inputs", function () {
+      const body = `euint32 encA = FHE.fromExternal(a, proofA); euint32 encB = FHE.fromExternal(b, proofB);`;
+      expect(expectedClearValue(`${body} _result = FHE.add(encA, encB);`, "_result", "euint32", clearValues)).to.eq(
+        "49n",
+      );
+      expect(expectedClearValue(`${body} _result = FHE.sub(encB, encA);`, "_result", "euint8", clearValues)).to.eq(
+        "221n",
+      );
+      expect(expectedClearValue(`${body} _flag = FHE.lt(encB, encA);`, "_flag", "ebool", clearValues)).to.eq("true");
+      expect(expectedClearValue(`_result = FHE.shl(a, 3);`, "_result", "euint32", clearValues)).to.eq("336n");
+    });
+
+    it("leaves values it cannot compute undefined", function () {
+      expect(expectedClearValue(`_result = FHE.add(_result, a);`, "_result", "euint32", clearValues)).to.eq(undefined);
+      expect(expectedClearValue(`_result = FHE.div(a, 0);`, "_result", "euint32", clearValues)).to.eq(undefined);
+      expect(expectedClearValue(`_owner = a;`, "_owner", "eaddress", clearValues)).to.eq(undefined);
+      expect(expectedClearValue(`_result = a; _result = b;`, "_result", "euint32", clearValues)).to.eq(undefined);
+    });
+  });
+
+  describe("findWriter", function () {
+    it("prefers a writer whose stored value can be computed", function () {
+      const written = findWriter(callables, "_result", "euint32", source, "calculator");
+      expect(written!.writer.fragment.name).to.eq("add");
+      expect(written!.expected).to.eq("49n");
+    });
+
+    it("falls back to any writer, and finds none for storage nothing assigns", function () {
+      const withoutAdd = callables.filter((c) => c.fragment.name !== "add");
+      const written = findWriter(withoutAdd, "_result", "euint32", source, "calculator");
+      expect(written!.writer.fragment.name).to.eq("reset");
+      expect(written!.expected).to.eq(undefined);
+      expect(findWriter(callables, "_missing", "euint32", source, "calculator")).to.eq(undefined);
+    });
+  });
+
+  describe("generateFunctionTest", function () {
+    const getters = findHandleGetters(abi, source);
+
+    it("decrypts the handles a function stores and asserts their clear value", function () {
+      const { content, usesFhevmType } = generateFunctionTest(
+        callableNamed("add"),
+        callables,
+        "calculator",
+        getters,
+        source,
+      );
+      expect(content).to.include("const tx = await calculatorContract.connect(signers.alice).add(");
+      expect(content).to.include(
+        "const handleGetResult = await calculatorContract.connect(signers.alice).getResult();",
+      );
+      expect(content).to.include("FhevmType.euint32,");
+      expect(content).to.include("expect(clearGetResult).to.eq(49n);");
+      expect(content).to.not.include("getFlag");
+      expect(usesFhevmType).to.eq(true);
+    });
+
+    it("calls a writer before reading a getter, then decrypts what it returns", function () {
+      const { content } = generateFunctionTest(callableNamed("getResult"), callables, "calculator", getters, source);
+      const write = content.indexOf("calculatorContract.connect(signers.alice).add(");
+      const read = content.indexOf("const handle = await calculatorContract.connect(signers.alice).getResult();");
+      expect(write).to.be.greaterThan(-1);
+      expect(read).to.be.greaterThan(write);
+      expect(content).to.include("expect(handle).to.not.eq(ethers.ZeroHash);");
+      expect(content).to.include("expect(clearValue).to.eq(49n);");
+      expect(content).to.not.match(/to\.match\(/);
+    });
+
+    it("decrypts ebool handles without FhevmType, asserting only the type when the value is unknown", function () {
+      const { content, usesFhevmType } = generateFunctionTest(
+        callableNamed("getFlag"),
+        callables,
+        "calculator",
+        getters,
+        source,
+      );
+      expect(content).to.include(".addBool(true)");
+      expect(content).to.include(
+        "const clearValue = await fhevm.userDecryptEbool(handle, calculatorContractAddress, signers.alice);",
+      );
+      expect(content).to.include(`expect(clearValue).to.be.a("boolean");`);
+      expect(usesFhevmType).to.eq(false);
+    });
+
+    it("skips functions whose params it cannot provide", function () {
+      const fragment: AbiFragment = {
+        type: "function",
+        name: "settle",
+        stateMutability: "nonpayable",
+        inputs: [param("order", "tuple", "struct Order")],
+      };
+      const generated = generateFunctionTest(callable(fragment), callables, "calculator", getters, source);
+      expect(generated.content).to.eq("");
+      expect(generated.skipped).to.eq("unsupported parameter type (order: Order)");
+    });
+  });
+
+  describe("generateTestSuite", function () {
+    it("deploys the contract and adds one describe block per function", function () {
+      const { content, skipped } = generateTestSuite("Calculator", abi, source);
+      expect(content).to.include(`import { FhevmType } from "@fhevm/hardhat-plugin";`);
+      expect(content).to.include(`import { Calculator, Calculator__factory } from "../types";`);
+      expect(content).to.include("await factory.deploy()");
+      expect(content.match(/^ {2}describe\("(\w+)"/gm)).to.deep.eq(
+        ["add", "getFlag", "getResult", "reset", "setFlag"].map((name) => `  describe("${name}"`),
+      );
+      expect(skipped).to.deep.eq([]);
+    });
+
+    it("calls overloads by signature and lists the functions left without a test", function () {
+      const overloaded: AbiFragment[] = [
+        { type: "function", name: "put", stateMutability: "nonpayable", inputs: [param("value", "uint32")] },
+        {
+          type: "function",
+          name: "put",
+          stateMutability: "nonpayable",
+          inputs: [param("value", "uint32"), param("key", "uint8")],
+        },
+        { type: "function", name: "settle", stateMutability: "nonpayable", inputs: [param("order", "tuple")] },
+      ];
+      const { content, skipped } = generateTestSuite("Store", overloaded, "");
+      expect(content).to.include(`storeContract.connect(signers.alice)["put(uint32)"](1)`);
+      expect(content).to.include(`storeContract.connect(signers.alice)["put(uint32,uint8)"](1, 1)`);
+      expect(content).to.not.include("FhevmType");
+      expect(skipped).to.deep.eq([{ name: "settle", reason: "unsupported parameter type (order: tuple)" }]);
+    });
+  });
+});